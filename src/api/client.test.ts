@@ -0,0 +1,129 @@
+import { IncomingMessage, Server, ServerResponse, createServer } from "node:http";
+import { AddressInfo } from "node:net";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { requestJson } from "./client";
+import { CoolifyApiError } from "./errors";
+
+type Handler = (request: IncomingMessage, response: ServerResponse) => void;
+
+let server: Server;
+let baseUrl: string;
+let handlers: Handler[];
+let hits: { method?: string; url?: string; at: number }[];
+
+function respond(status: number, body?: unknown, headers: Record<string, string> = {}): Handler {
+  return (_request, response) => {
+    response.writeHead(status, { "Content-Type": "application/json", ...headers });
+    response.end(body === undefined ? "" : JSON.stringify(body));
+  };
+}
+
+const hang: Handler = () => {};
+
+beforeEach(async () => {
+  handlers = [];
+  hits = [];
+  server = createServer((request, response) => {
+    hits.push({ method: request.method, url: request.url, at: Date.now() });
+    const handler = handlers.shift() ?? respond(500, { message: "No handler left" });
+    handler(request, response);
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/v1`;
+});
+
+afterEach(async () => {
+  server.closeAllConnections();
+  await new Promise<void>((resolve) => server.close(() => resolve()));
+});
+
+describe("requestJson", () => {
+  it("sends the token and parses the body", async () => {
+    let authorization: string | undefined;
+    handlers.push((request, response) => {
+      authorization = request.headers.authorization;
+      respond(200, { uuid: "abc" })(request, response);
+    });
+
+    await expect(requestJson("/servers/abc", { baseUrl, token: "secret" })).resolves.toEqual({ uuid: "abc" });
+    expect(authorization).toBe("Bearer secret");
+    expect(hits[0].url).toBe("/api/v1/servers/abc");
+  });
+
+  it("retries a GET after 5xx with growing delays", async () => {
+    handlers.push(respond(502), respond(503), respond(200, { ok: true }));
+
+    await expect(requestJson("/servers", { baseUrl, token: "t" })).resolves.toEqual({ ok: true });
+    expect(hits).toHaveLength(3);
+    const firstDelay = hits[1].at - hits[0].at;
+    const secondDelay = hits[2].at - hits[1].at;
+    expect(firstDelay).toBeGreaterThanOrEqual(450);
+    expect(secondDelay).toBeGreaterThanOrEqual(950);
+  });
+
+  it("gives up after the configured retries and surfaces the API error", async () => {
+    handlers.push(respond(500, { message: "Boom" }), respond(500, { message: "Boom" }));
+
+    const request = requestJson("/servers", { baseUrl, token: "t", retries: 1 });
+    await expect(request).rejects.toBeInstanceOf(CoolifyApiError);
+    await expect(request).rejects.toMatchObject({ status: 500 });
+    expect(hits).toHaveLength(2);
+  });
+
+  it("waits for Retry-After on 429, even for POST", async () => {
+    handlers.push(respond(429, { message: "Slow down" }, { "Retry-After": "1" }), respond(200, { uuid: "new" }));
+
+    await expect(
+      requestJson("/applications/abc/restart", { baseUrl, token: "t", method: "POST", body: { force: true } }),
+    ).resolves.toEqual({ uuid: "new" });
+    expect(hits.map((hit) => hit.method)).toEqual(["POST", "POST"]);
+    expect(hits[1].at - hits[0].at).toBeGreaterThanOrEqual(950);
+  });
+
+  it("does not wait out a Retry-After longer than the retry cap", async () => {
+    handlers.push(respond(429, { message: "Slow down" }, { "Retry-After": "3600" }));
+
+    await expect(requestJson("/servers", { baseUrl, token: "t" })).rejects.toMatchObject({ status: 429 });
+    expect(hits).toHaveLength(1);
+  });
+
+  it("aborts a request that outlives the timeout", async () => {
+    handlers.push(hang);
+
+    await expect(requestJson("/servers", { baseUrl, token: "t", timeoutMs: 100, retries: 0 })).rejects.toThrow(
+      "Request timed out after 0.1s",
+    );
+    expect(hits).toHaveLength(1);
+  });
+
+  it("does not replay a POST after 5xx", async () => {
+    handlers.push(respond(502), respond(200, { uuid: "duplicate" }));
+
+    await expect(
+      requestJson("/deploy?uuid=abc", { baseUrl, token: "t", method: "POST", body: {} }),
+    ).rejects.toMatchObject({ status: 502 });
+    expect(hits).toHaveLength(1);
+  });
+
+  it("does not replay a non-idempotent GET after 5xx or a timeout", async () => {
+    handlers.push(respond(500), hang);
+
+    await expect(requestJson("/deploy?uuid=abc", { baseUrl, token: "t", idempotent: false })).rejects.toMatchObject({
+      status: 500,
+    });
+    await expect(
+      requestJson("/deploy?uuid=abc", { baseUrl, token: "t", idempotent: false, timeoutMs: 100 }),
+    ).rejects.toThrow("Request timed out");
+    expect(hits).toHaveLength(2);
+  });
+
+  it("stops retrying when the caller aborts", async () => {
+    handlers.push(respond(503), respond(200, { ok: true }));
+    const controller = new AbortController();
+
+    const request = requestJson("/servers", { baseUrl, token: "t", signal: controller.signal });
+    setTimeout(() => controller.abort(new Error("Canceled")), 100);
+    await expect(request).rejects.toThrow("Canceled");
+    expect(hits).toHaveLength(1);
+  });
+});
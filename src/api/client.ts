@@ -1,6 +1,10 @@
+import { CoolifyApiError } from "./errors";
+import { ListPage, fetchPages, withPageParams } from "./pagination";
+
 export type Preferences = {
   apiUrl?: string;
   apiToken?: string;
+  requestTimeout?: string;
 };
 
 export const DEFAULT_BASE_URL = "https://app.coolify.io/api/v1";
@@ -16,37 +20,158 @@ export function getInstanceUrl(baseUrl: string): string {
   return baseUrl.replace(/\/api\/v1$/, "");
 }
 
+export type Method = "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
+
+export const DEFAULT_TIMEOUT_MS = 30_000;
+export const DEFAULT_RETRIES = 3;
+const BASE_RETRY_DELAY_MS = 500;
+const MAX_RETRY_DELAY_MS = 60_000;
+
+export type RequestOptions = {
+  baseUrl: string;
+  token: string;
+  method?: Method;
+  body?: unknown;
+  signal?: AbortSignal;
+  timeoutMs?: number;
+  retries?: number;
+  /** Whether the request may be repeated after a network error or 5xx. Defaults to true for GET. */
+  idempotent?: boolean;
+};
+
 export async function requestJson<T>(
   path: string,
   {
     baseUrl,
     token,
-    method,
+    method = "GET",
     body,
     signal,
-  }: {
-    baseUrl: string;
-    token: string;
-    method?: "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
-    body?: unknown;
-    signal?: AbortSignal;
-  },
+    timeoutMs = DEFAULT_TIMEOUT_MS,
+    retries = DEFAULT_RETRIES,
+    idempotent = method === "GET",
+  }: RequestOptions,
 ): Promise<T> {
-  const response = await fetch(`${baseUrl}${path}`, {
-    method,
-    headers: {
-      Authorization: `Bearer ${token}`,
-      ...(body ? { "Content-Type": "application/json" } : {}),
-    },
-    body: body ? JSON.stringify(body) : undefined,
-    signal,
-  });
+  for (let attempt = 0; ; attempt++) {
+    const canRetry = attempt < retries;
+    let response: Response;
+    try {
+      response = await fetchWithTimeout(
+        `${baseUrl}${path}`,
+        {
+          method,
+          headers: {
+            Authorization: `Bearer ${token}`,
+            ...(body ? { "Content-Type": "application/json" } : {}),
+          },
+          body: body ? JSON.stringify(body) : undefined,
+        },
+        { signal, timeoutMs },
+      );
+    } catch (error) {
+      if (signal?.aborted || !idempotent || !canRetry) throw error;
+      await sleep(backoffDelay(attempt), signal);
+      continue;
+    }
+
+    if (response.ok) {
+      const text = await response.text();
+      return (text ? JSON.parse(text) : undefined) as T;
+    }
+
+    // A 429 means the request was rejected before it ran, so it is safe to retry for any method.
+    if (response.status === 429 && canRetry) {
+      const delay = parseRetryAfter(response.headers.get("Retry-After")) ?? backoffDelay(attempt);
+      if (delay <= MAX_RETRY_DELAY_MS) {
+        await response.body?.cancel();
+        await sleep(delay, signal);
+        continue;
+      }
+    }
+
+    if (response.status >= 500 && idempotent && canRetry) {
+      await response.body?.cancel();
+      await sleep(backoffDelay(attempt), signal);
+      continue;
+    }
 
-  if (!response.ok) {
-    throw new Error(`Coolify API error: ${response.status}`);
+    throw await CoolifyApiError.fromResponse(response);
   }
+}
+
+export async function requestList<T>(
+  path: string,
+  {
+    pageSize,
+    maxItems,
+    ...options
+  }: Omit<RequestOptions, "method" | "body" | "idempotent"> & { pageSize?: number; maxItems?: number },
+): Promise<ListPage<T>> {
+  return fetchPages<T>((page) => requestJson<unknown>(withPageParams(path, page), options), { pageSize, maxItems });
+}
+
+async function fetchWithTimeout(
+  url: string,
+  init: RequestInit,
+  { signal, timeoutMs }: { signal?: AbortSignal; timeoutMs: number },
+): Promise<Response> {
+  const controller = new AbortController();
+  const abort = () => controller.abort();
+  signal?.addEventListener("abort", abort, { once: true });
+  if (signal?.aborted) controller.abort();
 
-  return (await response.json()) as T;
+  let timedOut = false;
+  const timer =
+    timeoutMs > 0
+      ? setTimeout(() => {
+          timedOut = true;
+          controller.abort();
+        }, timeoutMs)
+      : undefined;
+
+  try {
+    return await fetch(url, { ...init, signal: controller.signal });
+  } catch (error) {
+    if (timedOut) {
+      throw new Error(`Request timed out after ${timeoutMs / 1000}s`);
+    }
+    throw error;
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener("abort", abort);
+  }
+}
+
+function backoffDelay(attempt: number) {
+  const delay = BASE_RETRY_DELAY_MS * 2 ** attempt;
+  return Math.min(delay + Math.random() * delay * 0.25, MAX_RETRY_DELAY_MS);
+}
+
+export function parseRetryAfter(value: string | null, now = Date.now()): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  if (Number.isNaN(date)) return undefined;
+  return Math.max(0, date - now);
+}
+
+function sleep(ms: number, signal?: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
 }
 
 export async function fetchProjectEnvironments(
@@ -74,10 +199,10 @@ export async function fetchProjectEnvironments(
     .map((project) => {
       const projectUuid = project.uuid ?? "";
       if (!projectUuid) return null;
-      return requestJson<{ id?: number | string; uuid?: string; name?: string }[]>(
+      return requestList<{ id?: number | string; uuid?: string; name?: string }>(
         `/projects/${projectUuid}/environments`,
         { baseUrl, token, signal },
-      ).then((envs) =>
+      ).then(({ items: envs }) =>
         envs.map((env) => ({
           ...env,
           projectId: project.id ? String(project.id) : project.uuid,
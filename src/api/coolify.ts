@@ -0,0 +1,170 @@
+import { getPreferenceValues } from "@raycast/api";
+import { Application, Database, ResourceType, Service } from "../lib/resources";
+import { DEFAULT_TIMEOUT_MS, Method, Preferences, requestJson, requestList } from "./client";
+import { Environment, Project } from "./filters";
+import { ListPage, PageRequest, readPage, withPageParams } from "./pagination";
+import {
+  BackupExecution,
+  DeployResponse,
+  Deployment,
+  EnvironmentVariable,
+  EnvironmentVariablePayload,
+  Health,
+  PrivateKey,
+  ScheduledDatabaseBackup,
+  Server,
+  ServerDomainEntry,
+  ServerResource,
+  Team,
+  TeamMember,
+  Version,
+} from "./types";
+
+export type SharedVariableScope = "team" | "project" | "environment";
+
+export type EnvVarResourceType = ResourceType | SharedVariableScope;
+
+export type DeleteResourceOptions = {
+  delete_volumes: boolean;
+  delete_connected_networks: boolean;
+  delete_configurations: boolean;
+  docker_cleanup: boolean;
+};
+
+function resourcePath(type: ResourceType, uuid: string) {
+  return `/${type}s/${uuid}`;
+}
+
+function envVarsPath(type: EnvVarResourceType, uuid: string) {
+  return `/${type}s/${uuid}/envs`;
+}
+
+export type ListOptions = {
+  signal?: AbortSignal;
+  maxItems?: number;
+};
+
+function getRequestTimeoutMs() {
+  const seconds = Number(getPreferenceValues<Preferences>().requestTimeout);
+  return Number.isFinite(seconds) && seconds > 0 ? seconds * 1000 : DEFAULT_TIMEOUT_MS;
+}
+
+export function createCoolifyClient({
+  baseUrl,
+  token,
+  timeoutMs = getRequestTimeoutMs(),
+}: {
+  baseUrl: string;
+  token: string;
+  timeoutMs?: number;
+}) {
+  const get = <T>(path: string, signal?: AbortSignal) => requestJson<T>(path, { baseUrl, token, signal, timeoutMs });
+  // Coolify triggers deployments and lifecycle actions with GET, so these must not be replayed on failure.
+  const trigger = <T>(path: string) => requestJson<T>(path, { baseUrl, token, timeoutMs, idempotent: false });
+  const send = <T>(method: Method, path: string, body?: unknown) =>
+    requestJson<T>(path, { baseUrl, token, method, body, timeoutMs });
+  const list = <T>(path: string, { signal, maxItems }: ListOptions = {}) =>
+    requestList<T>(path, { baseUrl, token, signal, timeoutMs, maxItems }).then((page) => page.items);
+
+  return {
+    getHealth: () => get<Health>("/health"),
+    getVersion: () => get<Version>("/version"),
+    enableApi: () => trigger<unknown>("/enable"),
+    disableApi: () => trigger<unknown>("/disable"),
+    listResources: () => list<ServerResource>("/resources"),
+
+    listProjects: () => list<Project>("/projects"),
+    getProject: (uuid: string) => get<Project>(`/projects/${uuid}`),
+    createProject: (body: { name?: string; description?: string }) =>
+      send<{ uuid?: string }>("POST", "/projects", body),
+    updateProject: (uuid: string, body: { name?: string; description?: string }) =>
+      send<unknown>("PATCH", `/projects/${uuid}`, body),
+    deleteProject: (uuid: string) => send<unknown>("DELETE", `/projects/${uuid}`),
+    listProjectEnvironments: (uuid: string) => list<Environment>(`/projects/${uuid}/environments`),
+    getProjectEnvironment: (projectUuid: string, environmentNameOrUuid: string) =>
+      get<Environment>(`/projects/${projectUuid}/${environmentNameOrUuid}`),
+
+    listApplications: () => list<Application>("/applications"),
+    getApplication: (uuid: string) => get<Application>(`/applications/${uuid}`),
+    createApplication: (type: string, body: unknown) => send<{ uuid?: string }>("POST", `/applications/${type}`, body),
+    updateApplication: (uuid: string, body: unknown) => send<unknown>("PATCH", `/applications/${uuid}`, body),
+    getApplicationLogs: (uuid: string, lines: number) =>
+      get<{ logs?: string } | string>(`/applications/${uuid}/logs?lines=${lines}`),
+
+    listServices: () => list<Service>("/services"),
+    createService: (body: unknown) => send<{ uuid?: string; domains?: string[] }>("POST", "/services", body),
+    getService: (uuid: string) => get<Service>(`/services/${uuid}`),
+    updateService: (uuid: string, body: unknown) => send<unknown>("PATCH", `/services/${uuid}`, body),
+
+    listDatabases: () => list<Database>("/databases"),
+    getDatabase: (uuid: string) => get<Database>(`/databases/${uuid}`),
+    createDatabase: (type: string, body: unknown) => send<{ uuid?: string }>("POST", `/databases/${type}`, body),
+    updateDatabase: (uuid: string, body: unknown) => send<unknown>("PATCH", `/databases/${uuid}`, body),
+    listDatabaseBackups: (uuid: string) => list<ScheduledDatabaseBackup>(`/databases/${uuid}/backups`),
+    createDatabaseBackup: (uuid: string, body: unknown) =>
+      send<{ uuid?: string }>("POST", `/databases/${uuid}/backups`, body),
+    updateDatabaseBackup: (uuid: string, backupUuid: string, body: unknown) =>
+      send<unknown>("PATCH", `/databases/${uuid}/backups/${backupUuid}`, body),
+    triggerDatabaseBackup: (uuid: string, backupUuid: string) =>
+      send<unknown>("PATCH", `/databases/${uuid}/backups/${backupUuid}`, { backup_now: true }),
+    listBackupExecutions: (uuid: string, backupUuid: string) =>
+      list<BackupExecution>(`/databases/${uuid}/backups/${backupUuid}/executions`),
+
+    startResource: (type: ResourceType, uuid: string) => trigger<unknown>(`${resourcePath(type, uuid)}/start`),
+    stopResource: (type: ResourceType, uuid: string) => trigger<unknown>(`${resourcePath(type, uuid)}/stop`),
+    restartResource: (type: ResourceType, uuid: string) => trigger<unknown>(`${resourcePath(type, uuid)}/restart`),
+    deleteResource: (type: ResourceType, uuid: string, options: DeleteResourceOptions) => {
+      const params = new URLSearchParams({
+        delete_volumes: String(options.delete_volumes),
+        delete_connected_networks: String(options.delete_connected_networks),
+        delete_configurations: String(options.delete_configurations),
+        docker_cleanup: String(options.docker_cleanup),
+      });
+      return send<unknown>("DELETE", `${resourcePath(type, uuid)}?${params}`);
+    },
+
+    listEnvironmentVariables: (type: EnvVarResourceType, uuid: string) =>
+      list<EnvironmentVariable>(envVarsPath(type, uuid)),
+    createEnvironmentVariable: (type: EnvVarResourceType, uuid: string, body: EnvironmentVariablePayload) =>
+      send<{ uuid?: string }>("POST", envVarsPath(type, uuid), body),
+    updateEnvironmentVariable: (type: EnvVarResourceType, uuid: string, body: EnvironmentVariablePayload) =>
+      send<unknown>("PATCH", envVarsPath(type, uuid), body),
+    updateEnvironmentVariablesBulk: (type: EnvVarResourceType, uuid: string, data: EnvironmentVariablePayload[]) =>
+      send<unknown>("PATCH", `${envVarsPath(type, uuid)}/bulk`, { data }),
+    deleteEnvironmentVariable: (type: EnvVarResourceType, uuid: string, envUuid: string) =>
+      send<unknown>("DELETE", `${envVarsPath(type, uuid)}/${envUuid}`),
+
+    deploy: (uuid: string, { force }: { force?: boolean } = {}) =>
+      trigger<DeployResponse>(`/deploy?uuid=${uuid}${force ? "&force=true" : ""}`),
+    listDeployments: (options?: ListOptions) => list<Deployment>("/deployments", options),
+    getDeployment: (uuid: string) => get<Deployment>(`/deployments/${uuid}`),
+    cancelDeployment: (uuid: string) => send<unknown>("POST", `/deployments/${uuid}/cancel`),
+    listApplicationDeployments: (uuid: string, options?: ListOptions) =>
+      list<Deployment>(`/deployments/applications/${uuid}`, options),
+    getApplicationDeploymentsPage: (
+      uuid: string,
+      page: PageRequest,
+      signal?: AbortSignal,
+    ): Promise<ListPage<Deployment>> =>
+      get<unknown>(withPageParams(`/deployments/applications/${uuid}`, page), signal).then(readPage<Deployment>),
+
+    listServers: () => list<Server>("/servers"),
+    getServer: (uuid: string) => get<Server>(`/servers/${uuid}`),
+    createServer: (body: unknown) => send<{ uuid?: string }>("POST", "/servers", body),
+    validateServer: (uuid: string) => trigger<unknown>(`/servers/${uuid}/validate`),
+    listServerResources: (uuid: string) => list<ServerResource>(`/servers/${uuid}/resources`),
+    listServerDomains: (uuid: string) => list<ServerDomainEntry>(`/servers/${uuid}/domains`),
+
+    listPrivateKeys: () => list<PrivateKey>("/security/keys"),
+    getPrivateKey: (uuid: string) => get<PrivateKey>(`/security/keys/${uuid}`),
+    deletePrivateKey: (uuid: string) => send<unknown>("DELETE", `/security/keys/${uuid}`),
+
+    listTeams: () => list<Team>("/teams"),
+    getTeam: (id: number | string) => get<Team>(`/teams/${id}`),
+    getCurrentTeam: () => get<Team>("/teams/current"),
+    listTeamMembers: (id: number | string) => list<TeamMember>(`/teams/${id}/members`),
+    listCurrentTeamMembers: () => list<TeamMember>("/teams/current/members"),
+  };
+}
+
+export type CoolifyClient = ReturnType<typeof createCoolifyClient>;
@@ -0,0 +1,77 @@
+export type CoolifyFieldErrors = Record<string, string[]>;
+
+export class CoolifyApiError extends Error {
+  readonly status: number;
+  readonly errors: CoolifyFieldErrors;
+  readonly body: unknown;
+
+  constructor({
+    status,
+    message,
+    errors = {},
+    body,
+  }: {
+    status: number;
+    message: string;
+    errors?: CoolifyFieldErrors;
+    body?: unknown;
+  }) {
+    super(message);
+    this.name = "CoolifyApiError";
+    this.status = status;
+    this.errors = errors;
+    this.body = body;
+  }
+
+  static async fromResponse(response: Response): Promise<CoolifyApiError> {
+    const text = await response.text().catch(() => "");
+    let body: unknown = text;
+    try {
+      body = text ? JSON.parse(text) : undefined;
+    } catch {
+      // Non-JSON error pages (proxies, maintenance mode) are kept as raw text.
+    }
+
+    const record = body && typeof body === "object" ? (body as Record<string, unknown>) : {};
+    const message =
+      (typeof record.message === "string" && record.message) ||
+      (typeof record.error === "string" && record.error) ||
+      defaultStatusMessage(response.status);
+
+    return new CoolifyApiError({
+      status: response.status,
+      message,
+      errors: parseFieldErrors(record.errors),
+      body,
+    });
+  }
+}
+
+function defaultStatusMessage(status: number) {
+  if (status === 401) return "Unauthenticated. Check the API token.";
+  if (status === 403) return "Forbidden. The API token is missing the required permissions.";
+  if (status === 404) return "Not found.";
+  if (status === 429) return "Too many requests.";
+  return `Coolify API error: ${status}`;
+}
+
+function parseFieldErrors(value: unknown): CoolifyFieldErrors {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return {};
+  const errors: CoolifyFieldErrors = {};
+  for (const [field, messages] of Object.entries(value as Record<string, unknown>)) {
+    if (Array.isArray(messages)) {
+      errors[field] = messages.map((message) => String(message));
+    } else if (messages !== undefined && messages !== null) {
+      errors[field] = [String(messages)];
+    }
+  }
+  return errors;
+}
+
+export function getErrorMessage(error: unknown): string {
+  if (error instanceof CoolifyApiError) {
+    const fieldLines = Object.entries(error.errors).map(([field, messages]) => `${field}: ${messages.join(" ")}`);
+    return [`${error.status} · ${error.message}`, ...fieldLines].join("\n");
+  }
+  return error instanceof Error ? error.message : String(error);
+}
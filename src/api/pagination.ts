@@ -0,0 +1,82 @@
+export type ListPage<T> = {
+  items: T[];
+  total?: number;
+};
+
+export type PageRequest = {
+  skip: number;
+  take: number;
+};
+
+export const DEFAULT_PAGE_SIZE = 100;
+const MAX_PAGES = 50;
+
+function toCount(value: unknown) {
+  const count = typeof value === "string" ? Number(value) : value;
+  return typeof count === "number" && Number.isFinite(count) ? count : undefined;
+}
+
+function findItems(record: Record<string, unknown>): unknown[] | undefined {
+  for (const key of ["rows", "data", "deployments", "items"]) {
+    if (Array.isArray(record[key])) return record[key] as unknown[];
+  }
+  return undefined;
+}
+
+export function readPage<T>(response: unknown): ListPage<T> {
+  if (Array.isArray(response)) return { items: response as T[] };
+  if (!response || typeof response !== "object") return { items: [] };
+  const record = response as Record<string, unknown>;
+  const total = toCount(record.count) ?? toCount(record.total);
+
+  const items = findItems(record);
+  if (items) return { items: items as T[], total };
+
+  if (record.data && typeof record.data === "object") {
+    const nested = readPage<T>(record.data);
+    return { items: nested.items, total: total ?? nested.total };
+  }
+  return { items: [], total };
+}
+
+export function normalizeList<T>(response: unknown): T[] {
+  return readPage<T>(response).items;
+}
+
+function itemKey(item: unknown) {
+  if (!item || typeof item !== "object") return JSON.stringify(item);
+  const record = item as Record<string, unknown>;
+  return String(record.uuid ?? record.id ?? JSON.stringify(record));
+}
+
+export async function fetchPages<T>(
+  fetchPage: (page: PageRequest) => Promise<unknown>,
+  { pageSize = DEFAULT_PAGE_SIZE, maxItems = Infinity }: { pageSize?: number; maxItems?: number } = {},
+): Promise<ListPage<T>> {
+  const items: T[] = [];
+  let total: number | undefined;
+  let previousFirstKey: string | undefined;
+
+  for (let pageIndex = 0; pageIndex < MAX_PAGES && items.length < maxItems; pageIndex++) {
+    const take = Math.min(pageSize, maxItems - items.length);
+    const page = readPage<T>(await fetchPage({ skip: items.length, take }));
+    total = page.total ?? total;
+    if (page.items.length === 0) break;
+
+    // Endpoints that ignore skip/take return the same rows again; stop instead of looping.
+    const firstKey = itemKey(page.items[0]);
+    if (firstKey === previousFirstKey) break;
+    previousFirstKey = firstKey;
+
+    items.push(...page.items);
+    if (page.items.length < take) break;
+    if (total !== undefined && items.length >= total) break;
+  }
+
+  return { items: items.slice(0, maxItems), total };
+}
+
+export function withPageParams(path: string, { skip, take }: PageRequest) {
+  const separator = path.includes("?") ? "&" : "?";
+  return `${path}${separator}skip=${skip}&take=${take}`;
+}
@@ -0,0 +1,162 @@
+export type Health = {
+  status?: string;
+  message?: string;
+};
+
+export type Version = {
+  version?: string;
+};
+
+export type ServerDestination = {
+  uuid?: string;
+  name?: string;
+  network?: string;
+};
+
+export type Server = {
+  uuid?: string;
+  description?: string | null;
+  name?: string;
+  ip?: string;
+  is_reachable?: boolean;
+  is_usable?: boolean;
+  user?: string;
+  port?: string;
+  is_build_server?: boolean;
+  proxy?: { type?: string | null; status?: string | null } | null;
+  settings?: { is_build_server?: boolean; is_reachable?: boolean; is_usable?: boolean; updated_at?: string } | null;
+  validation_logs?: string | null;
+  destinations?: ServerDestination[];
+  updated_at?: string;
+};
+
+export type ServerResource = {
+  uuid?: string;
+  name?: string;
+  type?: string;
+  status?: string;
+  created_at?: string;
+};
+
+export type ServerDomainEntry = {
+  ip?: string;
+  domains?: string[];
+};
+
+export type PrivateKey = {
+  id?: number;
+  uuid?: string;
+  name?: string;
+  description?: string;
+  private_key?: string;
+  public_key?: string;
+  fingerprint?: string | null;
+};
+
+export type Team = {
+  id?: number;
+  name?: string;
+  description?: string | null;
+};
+
+export type TeamMember = {
+  id?: number;
+  name?: string;
+  email?: string;
+};
+
+export type EnvironmentVariable = {
+  uuid?: string;
+  is_build_time?: boolean;
+  is_literal?: boolean;
+  is_multiline?: boolean;
+  is_preview?: boolean;
+  is_really_required?: boolean;
+  is_required?: boolean;
+  is_shared?: boolean;
+  is_shown_once?: boolean;
+  key?: string;
+  order?: number | null;
+  real_value?: string;
+  value?: string | null;
+  version?: string;
+  created_at?: string;
+  updated_at?: string;
+};
+
+export type EnvironmentVariablePayload = {
+  key: string;
+  value: string;
+  is_preview?: boolean;
+  is_build_time?: boolean;
+  is_literal?: boolean;
+  is_multiline?: boolean;
+  is_shown_once?: boolean;
+};
+
+export type DeployResponse = {
+  deployments?: {
+    message?: string;
+    resource_uuid?: string;
+    deployment_uuid?: string;
+  }[];
+};
+
+export type Deployment = {
+  id?: number | string;
+  deployment_uuid?: string;
+  status?: string;
+  application_id?: number | string;
+  application_uuid?: string;
+  application_name?: string;
+  name?: string;
+  deployment_url?: string;
+  commit_message?: string;
+  commit?: string;
+  created_at?: string;
+  updated_at?: string;
+  source_app_uuid?: string;
+  environment_id?: number | string;
+  environment_uuid?: string;
+  server_name?: string;
+  logs?: unknown;
+  git_type?: string;
+  git_repository?: string;
+  repo_url?: string;
+  pull_request_url?: string;
+  pull_request_id?: number | string;
+};
+
+export type BackupExecution = {
+  id?: number | string;
+  uuid?: string;
+  status?: string;
+  message?: string | null;
+  size?: number | string | null;
+  filename?: string | null;
+  database_name?: string | null;
+  s3_uploaded?: boolean | null;
+  local_storage_deleted?: boolean;
+  created_at?: string;
+  updated_at?: string;
+  finished_at?: string | null;
+};
+
+export type ScheduledDatabaseBackup = {
+  id?: number | string;
+  uuid?: string;
+  enabled?: boolean;
+  frequency?: string;
+  save_s3?: boolean;
+  s3_storage_id?: number | string | null;
+  s3_storage_uuid?: string | null;
+  databases_to_backup?: string | null;
+  dump_all?: boolean;
+  database_backup_retention_amount_locally?: number;
+  database_backup_retention_days_locally?: number;
+  database_backup_retention_amount_s3?: number;
+  database_backup_retention_days_s3?: number;
+  executions?: BackupExecution[];
+  created_at?: string;
+  updated_at?: string;
+};
@@ -1,38 +1,12 @@
 import { Action, ActionPanel, Color, Icon, List } from "@raycast/api";
 import { useCachedPromise } from "@raycast/utils";
-import { requestJson } from "../api/client";
+import { createCoolifyClient } from "../api/coolify";
 import fromNow from "../utils/time";
+import DeploymentLogsDetail from "./deployment-logs";
 import { LogsSubmenu } from "./logs-actions";
 import JsonDetail from "./json-detail";
 import { RedeploySubmenu } from "./redeploy-actions";
 
-type Deployment = {
-  id?: number | string;
-  deployment_uuid?: string;
-  status?: string;
-  application_uuid?: string;
-  application_name?: string;
-  deployment_url?: string;
-  commit_message?: string;
-  commit?: string;
-  created_at?: string;
-};
-
-function normalizeList<T>(response: unknown): T[] {
-  if (Array.isArray(response)) return response as T[];
-  if (!response || typeof response !== "object") return [];
-  const record = response as Record<string, unknown>;
-  if (Array.isArray(record.rows)) return record.rows as T[];
-  if (Array.isArray(record.data)) return record.data as T[];
-  if (Array.isArray(record.deployments)) return record.deployments as T[];
-  if (record.data && typeof record.data === "object") {
-    const nested = record.data as Record<string, unknown>;
-    if (Array.isArray(nested.rows)) return nested.rows as T[];
-    if (Array.isArray(nested.data)) return nested.data as T[];
-  }
-  return [];
-}
-
 function statusColor(status?: string) {
   const value = (status ?? "").toLowerCase().replace(/\s+/g, "_").replace(/-+/g, "_");
   if (!value) return Color.SecondaryText;
@@ -59,18 +33,11 @@ export default function ApplicationDeploymentsList({
   applicationName: string;
   instanceUrl: string;
 }) {
-  const { data: deployments = [], isLoading } = useCachedPromise(
-    async (uuid: string) => {
-      const response = await requestJson<unknown>(`/deployments/applications/${uuid}`, {
-        baseUrl,
-        token,
-      });
-      return normalizeList<Deployment>(response);
-    },
+  const { data: list = [], isLoading } = useCachedPromise(
+    async (uuid: string) => createCoolifyClient({ baseUrl, token }).listApplicationDeployments(uuid, { maxItems: 100 }),
     [applicationUuid],
     { keepPreviousData: true },
   );
-  const list = normalizeList<Deployment>(deployments);
 
   return (
     <List isLoading={isLoading} searchBarPlaceholder="Search deployments...">
@@ -92,6 +59,20 @@ export default function ApplicationDeploymentsList({
               ]}
               actions={
                 <ActionPanel>
+                  {deployment.deployment_uuid ? (
+                    <Action.Push
+                      title="Show Build Logs"
+                      icon={Icon.Terminal}
+                      target={
+                        <DeploymentLogsDetail
+                          baseUrl={baseUrl}
+                          token={token}
+                          deploymentUuid={deployment.deployment_uuid}
+                          title={applicationName}
+                        />
+                      }
+                    />
+                  ) : null}
                   {deployUrl ? <Action.OpenInBrowser title="Open Deploy URL" url={deployUrl} icon={Icon.Link} /> : null}
                   {deployment.deployment_uuid ? (
                     <Action.Push
@@ -0,0 +1,294 @@
+import { Action, ActionPanel, Detail, Form, Icon, Toast, confirmAlert, showToast, useNavigation } from "@raycast/api";
+import { useForm, usePromise } from "@raycast/utils";
+import { useState } from "react";
+import { createCoolifyClient } from "../api/coolify";
+import { getErrorMessage } from "../api/errors";
+import { Application, BUILD_PACKS, buildPackUsesGit } from "../lib/resources";
+import { trackDeployments } from "../lib/tracked-deployments";
+import { diffFields } from "../lib/updatable-fields";
+
+type SettingsValues = {
+  domains: string;
+  gitBranch: string;
+  buildPack: string;
+  installCommand: string;
+  buildCommand: string;
+  startCommand: string;
+  baseDirectory: string;
+  portsExposes: string;
+  healthCheckEnabled: boolean;
+  healthCheckPath: string;
+  healthCheckInterval: string;
+  limitsMemory: string;
+  limitsCpus: string;
+};
+
+function splitDomains(value: string) {
+  return value
+    .split(/[\s,]+/)
+    .map((domain) => domain.trim())
+    .filter(Boolean);
+}
+
+function isUrl(value: string) {
+  try {
+    const url = new URL(value);
+    return url.protocol === "http:" || url.protocol === "https:";
+  } catch {
+    return false;
+  }
+}
+
+function toFormValues(app: Application): SettingsValues {
+  return {
+    domains: splitDomains(app.fqdn ?? "").join("\n"),
+    gitBranch: app.git_branch ?? "",
+    buildPack: app.build_pack ?? BUILD_PACKS[0].value,
+    installCommand: app.install_command ?? "",
+    buildCommand: app.build_command ?? "",
+    startCommand: app.start_command ?? "",
+    baseDirectory: app.base_directory ?? "/",
+    portsExposes: app.ports_exposes ?? "",
+    healthCheckEnabled: Boolean(app.health_check_enabled),
+    healthCheckPath: app.health_check_path ?? "/",
+    healthCheckInterval: app.health_check_interval ? String(app.health_check_interval) : "",
+    limitsMemory: app.limits_memory && app.limits_memory !== "0" ? app.limits_memory : "",
+    limitsCpus: app.limits_cpus && app.limits_cpus !== "0" ? app.limits_cpus : "",
+  };
+}
+
+function needsPorts(buildPack: string) {
+  return buildPack !== "dockercompose" && buildPack !== "static";
+}
+
+function toPayload(values: SettingsValues) {
+  const payload: Record<string, unknown> = {
+    domains: splitDomains(values.domains).join(","),
+    build_pack: values.buildPack,
+    health_check_enabled: values.healthCheckEnabled,
+    health_check_path: values.healthCheckPath.trim() || "/",
+    limits_memory: values.limitsMemory.trim() || "0",
+    limits_cpus: values.limitsCpus.trim() || "0",
+  };
+  if (buildPackUsesGit(values.buildPack)) {
+    payload.git_branch = values.gitBranch.trim();
+    payload.base_directory = values.baseDirectory.trim() || "/";
+  }
+  if (values.buildPack !== "dockercompose") payload.ports_exposes = values.portsExposes.replace(/\s+/g, "");
+  if (values.buildPack === "nixpacks") {
+    payload.install_command = values.installCommand.trim();
+    payload.build_command = values.buildCommand.trim();
+    payload.start_command = values.startCommand.trim();
+  }
+  if (values.healthCheckInterval.trim()) payload.health_check_interval = Number(values.healthCheckInterval);
+  return payload;
+}
+
+function validateSettings(values: SettingsValues) {
+  const errors: Partial<Record<keyof SettingsValues, string>> = {};
+  const invalidDomain = splitDomains(values.domains).find((domain) => !isUrl(domain));
+  if (invalidDomain) errors.domains = `${invalidDomain} is not a valid http(s) URL`;
+  if (buildPackUsesGit(values.buildPack) && !values.gitBranch.trim()) errors.gitBranch = "The item is required";
+  const ports = values.portsExposes.trim();
+  if (values.buildPack !== "dockercompose" && (ports || needsPorts(values.buildPack))) {
+    if (!/^\d+(\s*,\s*\d+)*$/.test(ports)) errors.portsExposes = "Use comma-separated port numbers, e.g. 3000,8080";
+  }
+  if (values.healthCheckEnabled && !values.healthCheckPath.trim().startsWith("/")) {
+    errors.healthCheckPath = "The path must start with /";
+  }
+  const interval = values.healthCheckInterval.trim();
+  if (interval && !(Number.isInteger(Number(interval)) && Number(interval) > 0)) {
+    errors.healthCheckInterval = "Use a whole number of seconds";
+  }
+  if (values.limitsMemory.trim() && !/^\d+(\.\d+)?[bkmg]?$/i.test(values.limitsMemory.trim())) {
+    errors.limitsMemory = "Use a Docker memory value, e.g. 512m or 2g";
+  }
+  if (values.limitsCpus.trim() && !(Number(values.limitsCpus) > 0)) {
+    errors.limitsCpus = "Use a positive number of CPUs, e.g. 0.5";
+  }
+  return errors;
+}
+
+function SettingsForm({
+  baseUrl,
+  token,
+  uuid,
+  app,
+  onUpdated,
+}: {
+  baseUrl: string;
+  token: string;
+  uuid: string;
+  app: Application;
+  onUpdated?: () => void;
+}) {
+  const { pop } = useNavigation();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const initialValues = toFormValues(app);
+
+  const { itemProps, handleSubmit, values, setValidationError } = useForm<SettingsValues>({
+    onSubmit: async () => {
+      const errors = Object.entries(validateSettings(values));
+      if (errors.length > 0) {
+        errors.forEach(([field, message]) => setValidationError(field as keyof SettingsValues, message));
+        return false;
+      }
+
+      const changes = diffFields(toPayload(initialValues), toPayload(values));
+      if (changes.length === 0) {
+        await showToast({ style: Toast.Style.Failure, title: "No changes to update" });
+        return false;
+      }
+
+      const client = createCoolifyClient({ baseUrl, token });
+      setIsSubmitting(true);
+      try {
+        await client.updateApplication(uuid, Object.fromEntries(changes.map((change) => [change.key, change.after])));
+        await showToast({ style: Toast.Style.Success, title: "Application updated" });
+        onUpdated?.();
+      } catch (error) {
+        await showToast({
+          style: Toast.Style.Failure,
+          title: "Failed to update application",
+          message: getErrorMessage(error),
+        });
+        return false;
+      } finally {
+        setIsSubmitting(false);
+      }
+
+      const redeploy = await confirmAlert({
+        title: "Redeploy Now?",
+        message: "Most settings only take effect after the application is redeployed.",
+        primaryAction: { title: "Redeploy" },
+        dismissAction: { title: "Later" },
+      });
+      if (redeploy) {
+        try {
+          await trackDeployments({ baseUrl, token }, await client.deploy(uuid));
+          await showToast({ style: Toast.Style.Success, title: "Redeploy triggered" });
+        } catch (error) {
+          await showToast({
+            style: Toast.Style.Failure,
+            title: "Failed to redeploy",
+            message: getErrorMessage(error),
+          });
+        }
+      }
+      pop();
+    },
+    initialValues,
+  });
+
+  // Git-based apps can switch between git build packs; Docker image apps have no repository to build from.
+  const usesGit = buildPackUsesGit(values.buildPack);
+  const buildPacks = BUILD_PACKS.filter((item) => item.usesGit === buildPackUsesGit(initialValues.buildPack));
+  if (!buildPacks.some((item) => item.value === initialValues.buildPack)) {
+    buildPacks.push({ title: initialValues.buildPack, value: initialValues.buildPack, usesGit });
+  }
+
+  return (
+    <Form
+      isLoading={isSubmitting}
+      navigationTitle={`${app.name ?? "Application"} Settings`}
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm icon={Icon.Check} title="Update Application" onSubmit={handleSubmit} />
+        </ActionPanel>
+      }
+    >
+      <Form.TextArea
+        title="Domains"
+        placeholder="https://app.example.com"
+        info="One domain per line. Leave empty to remove all domains."
+        enableMarkdown={false}
+        {...itemProps.domains}
+      />
+      <Form.Separator />
+      {usesGit ? <Form.TextField title="Git Branch" placeholder="main" {...itemProps.gitBranch} /> : null}
+      <Form.Dropdown title="Build Pack" {...itemProps.buildPack}>
+        {buildPacks.map((item) => (
+          <Form.Dropdown.Item key={item.value} title={item.title} value={item.value} />
+        ))}
+      </Form.Dropdown>
+      {usesGit ? <Form.TextField title="Base Directory" placeholder="/" {...itemProps.baseDirectory} /> : null}
+      {values.buildPack === "nixpacks" ? (
+        <>
+          <Form.TextField title="Install Command" placeholder="npm ci" {...itemProps.installCommand} />
+          <Form.TextField title="Build Command" placeholder="npm run build" {...itemProps.buildCommand} />
+          <Form.TextField title="Start Command" placeholder="npm start" {...itemProps.startCommand} />
+        </>
+      ) : null}
+      {values.buildPack !== "dockercompose" ? (
+        <Form.TextField
+          title="Ports Exposed"
+          placeholder={values.buildPack === "static" ? "80" : "3000"}
+          info="Comma-separated list of container ports."
+          {...itemProps.portsExposes}
+        />
+      ) : null}
+      <Form.Separator />
+      <Form.Checkbox label="Enable health check" {...itemProps.healthCheckEnabled} />
+      {values.healthCheckEnabled ? (
+        <>
+          <Form.TextField title="Health Check Path" placeholder="/" {...itemProps.healthCheckPath} />
+          <Form.TextField
+            title="Health Check Interval"
+            placeholder="5"
+            info="Seconds."
+            {...itemProps.healthCheckInterval}
+          />
+        </>
+      ) : null}
+      <Form.Separator />
+      <Form.TextField
+        title="Memory Limit"
+        placeholder="512m"
+        info="Leave empty for no limit."
+        {...itemProps.limitsMemory}
+      />
+      <Form.TextField title="CPU Limit" placeholder="0.5" info="Leave empty for no limit." {...itemProps.limitsCpus} />
+    </Form>
+  );
+}
+
+export default function ApplicationSettingsForm({
+  baseUrl,
+  token,
+  uuid,
+  onUpdated,
+}: {
+  baseUrl: string;
+  token: string;
+  uuid: string;
+  onUpdated?: () => void;
+}) {
+  const {
+    data: app,
+    error,
+    revalidate,
+  } = usePromise(async (appUuid: string) => createCoolifyClient({ baseUrl, token }).getApplication(appUuid), [uuid], {
+    onError: async (error) => {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Failed to load application",
+        message: getErrorMessage(error),
+      });
+    },
+  });
+
+  if (error) {
+    return (
+      <Detail
+        markdown={`# Failed to load application\n\n${getErrorMessage(error)}`}
+        actions={
+          <ActionPanel>
+            <Action icon={Icon.ArrowClockwise} title="Retry" onAction={revalidate} />
+          </ActionPanel>
+        }
+      />
+    );
+  }
+  if (!app) return <Form isLoading />;
+  return <SettingsForm baseUrl={baseUrl} token={token} uuid={uuid} app={app} onUpdated={onUpdated} />;
+}
@@ -0,0 +1,237 @@
+import { Action, ActionPanel, Detail, Form, Icon, Toast, open, showToast, useNavigation } from "@raycast/api";
+import { useForm, usePromise } from "@raycast/utils";
+import { mkdtemp, readFile, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { useEffect, useRef, useState } from "react";
+import { createCoolifyClient } from "../api/coolify";
+import { getErrorMessage } from "../api/errors";
+import { diffLines, formatUnifiedDiff, validateCompose } from "../lib/compose";
+import { trackDeployments } from "../lib/tracked-deployments";
+import { encodeBase64 } from "../utils/base64";
+
+export type ComposeResource = {
+  type: "application" | "service";
+  uuid: string;
+  name: string;
+};
+
+function ComposeReview({
+  baseUrl,
+  token,
+  resource,
+  before,
+  after,
+  onSaved,
+}: {
+  baseUrl: string;
+  token: string;
+  resource: ComposeResource;
+  before: string;
+  after: string;
+  onSaved: () => void;
+}) {
+  const { pop } = useNavigation();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const lines = diffLines(before, after);
+  const added = lines.filter((line) => line.kind === "added").length;
+  const removed = lines.filter((line) => line.kind === "removed").length;
+  const markdown = `# ${resource.name} Compose Changes\n\n+${added} / -${removed} lines\n\n\`\`\`diff\n${formatUnifiedDiff(lines)}\n\`\`\``;
+
+  const save = async (redeploy: boolean) => {
+    const client = createCoolifyClient({ baseUrl, token });
+    setIsSubmitting(true);
+    try {
+      const body = { docker_compose_raw: encodeBase64(after) };
+      if (resource.type === "application") {
+        await client.updateApplication(resource.uuid, body);
+      } else {
+        await client.updateService(resource.uuid, body);
+      }
+      if (redeploy) {
+        await trackDeployments({ baseUrl, token }, await client.deploy(resource.uuid));
+        await showToast({ style: Toast.Style.Success, title: "Compose saved", message: "Redeploy triggered" });
+      } else {
+        await showToast({ style: Toast.Style.Success, title: "Compose saved" });
+      }
+      onSaved();
+      pop();
+      pop();
+    } catch (error) {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Failed to save compose",
+        message: getErrorMessage(error),
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Detail
+      isLoading={isSubmitting}
+      markdown={markdown}
+      actions={
+        <ActionPanel>
+          <Action icon={Icon.Check} title="Save" onAction={() => save(false)} />
+          <Action icon={Icon.ArrowClockwise} title="Save and Redeploy" onAction={() => save(true)} />
+        </ActionPanel>
+      }
+    />
+  );
+}
+
+export default function ComposeEditor({
+  baseUrl,
+  token,
+  resource,
+}: {
+  baseUrl: string;
+  token: string;
+  resource: ComposeResource;
+}) {
+  const { push } = useNavigation();
+  const tempDir = useRef<string | undefined>(undefined);
+  const tempFile = () => join(tempDir.current ?? "", "docker-compose.yaml");
+
+  const removeTempDir = async () => {
+    const dir = tempDir.current;
+    tempDir.current = undefined;
+    if (dir) await rm(dir, { recursive: true, force: true });
+  };
+
+  useEffect(
+    () => () => {
+      removeTempDir();
+    },
+    [],
+  );
+
+  const {
+    data: deployed,
+    isLoading,
+    revalidate,
+  } = usePromise(
+    async (type: ComposeResource["type"], uuid: string) => {
+      const client = createCoolifyClient({ baseUrl, token });
+      const current = type === "application" ? await client.getApplication(uuid) : await client.getService(uuid);
+      return current.docker_compose_raw ?? "";
+    },
+    [resource.type, resource.uuid],
+    {
+      onData: (compose) => setValue("compose", compose),
+      onError: async (error) => {
+        await showToast({
+          style: Toast.Style.Failure,
+          title: "Failed to load compose file",
+          message: getErrorMessage(error),
+        });
+      },
+    },
+  );
+
+  const { itemProps, handleSubmit, values, setValue, setValidationError } = useForm<{ compose: string }>({
+    onSubmit: async () => {
+      const error = validateCompose(values.compose);
+      if (error) {
+        setValidationError("compose", error);
+        return false;
+      }
+      if (values.compose === (deployed ?? "")) {
+        await showToast({ style: Toast.Style.Failure, title: "No changes to save" });
+        return false;
+      }
+      push(
+        <ComposeReview
+          baseUrl={baseUrl}
+          token={token}
+          resource={resource}
+          before={deployed ?? ""}
+          after={values.compose}
+          onSaved={revalidate}
+        />,
+      );
+    },
+    initialValues: {
+      compose: "",
+    },
+  });
+
+  const openInEditor = async () => {
+    try {
+      tempDir.current ??= await mkdtemp(join(tmpdir(), "coolify-compose-"));
+      await writeFile(tempFile(), values.compose, { encoding: "utf8", mode: 0o600 });
+      await open(tempFile());
+      await showToast({
+        style: Toast.Style.Success,
+        title: "Opened in editor",
+        message: "Save the file, then reload it here with ⌘⇧R",
+      });
+    } catch (error) {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Failed to open editor",
+        message: getErrorMessage(error),
+      });
+    }
+  };
+
+  const reloadFromEditor = async () => {
+    try {
+      if (!tempDir.current) throw new Error("Open the compose file in an external editor first");
+      setValue("compose", await readFile(tempFile(), "utf8"));
+      setValidationError("compose", undefined);
+      await showToast({ style: Toast.Style.Success, title: "Reloaded from editor" });
+    } catch (error) {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Failed to reload from editor",
+        message: getErrorMessage(error),
+      });
+    } finally {
+      await removeTempDir();
+    }
+  };
+
+  return (
+    <Form
+      isLoading={isLoading}
+      navigationTitle={`${resource.name} / Docker Compose`}
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm icon={Icon.Eye} title="Review Changes" onSubmit={handleSubmit} />
+          <Action
+            icon={Icon.Pencil}
+            title="Open in External Editor"
+            shortcut={{ modifiers: ["cmd"], key: "o" }}
+            onAction={openInEditor}
+          />
+          <Action
+            icon={Icon.Download}
+            title="Reload from External Editor"
+            shortcut={{ modifiers: ["cmd", "shift"], key: "r" }}
+            onAction={reloadFromEditor}
+          />
+          <Action
+            icon={Icon.Undo}
+            title="Discard Changes"
+            shortcut={{ modifiers: ["cmd", "shift"], key: "z" }}
+            onAction={() => setValue("compose", deployed ?? "")}
+          />
+        </ActionPanel>
+      }
+    >
+      <Form.TextArea
+        title="Docker Compose"
+        enableMarkdown={false}
+        {...itemProps.compose}
+        onChange={(compose) => {
+          setValue("compose", compose);
+          setValidationError("compose", undefined);
+        }}
+        onBlur={() => setValidationError("compose", validateCompose(values.compose))}
+      />
+    </Form>
+  );
+}
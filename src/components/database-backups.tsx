@@ -0,0 +1,533 @@
+import { Action, ActionPanel, Color, Form, Icon, List, Toast, showToast, useNavigation } from "@raycast/api";
+import { useCachedPromise, useForm } from "@raycast/utils";
+import { useState } from "react";
+import { createCoolifyClient } from "../api/coolify";
+import { getErrorMessage } from "../api/errors";
+import { BackupExecution, ScheduledDatabaseBackup } from "../api/types";
+import { forEachWithConcurrency } from "../utils/concurrency";
+import { formatBytes } from "../utils/size";
+import fromNow, { formatDuration } from "../utils/time";
+
+const FREQUENCIES = [
+  { title: "Every Minute", value: "every_minute" },
+  { title: "Hourly", value: "hourly" },
+  { title: "Daily", value: "daily" },
+  { title: "Weekly", value: "weekly" },
+  { title: "Monthly", value: "monthly" },
+  { title: "Yearly", value: "yearly" },
+];
+
+const CUSTOM_FREQUENCY = "custom";
+const DEFAULT_STORAGE = "";
+const OTHER_STORAGE = "other";
+
+type ScheduleFormValues = {
+  frequency: string;
+  cron: string;
+  enabled: boolean;
+  databasesToBackup: string;
+  retentionAmount: string;
+  retentionDays: string;
+  saveS3: boolean;
+  s3Storage: string;
+  s3StorageUuid: string;
+};
+
+function frequencyLabel(frequency?: string) {
+  return FREQUENCIES.find((item) => item.value === frequency)?.title ?? frequency ?? "Unknown";
+}
+
+function isFailed(execution?: BackupExecution) {
+  return execution?.status === "failed";
+}
+
+function executionColor(status?: string) {
+  if (status === "success") return Color.Green;
+  if (status === "failed") return Color.Red;
+  return Color.Orange;
+}
+
+function executionDuration(execution: BackupExecution) {
+  if (!execution.created_at) return undefined;
+  const end = execution.finished_at ?? (execution.status === "running" ? undefined : execution.updated_at);
+  if (!end) return undefined;
+  return formatDuration(new Date(end).getTime() - new Date(execution.created_at).getTime());
+}
+
+function latestExecution(backup: ScheduledDatabaseBackup) {
+  return [...(backup.executions ?? [])].sort((a, b) =>
+    String(b.created_at ?? "").localeCompare(String(a.created_at ?? "")),
+  )[0];
+}
+
+const STORAGE_SCAN_TTL_MS = 5 * 60 * 1000;
+const storageScans = new Map<string, { startedAt: number; result: Promise<string[]> }>();
+
+// Coolify's API has no storage listing, so offer the S3 storages that existing schedules already use. The scan costs a
+// request per database, so forms opened in the same session share one result for a few minutes.
+function loadKnownS3Storages(baseUrl: string, token: string) {
+  const key = `${baseUrl}\n${token}`;
+  const scan = storageScans.get(key);
+  if (scan && Date.now() - scan.startedAt < STORAGE_SCAN_TTL_MS) return scan.result;
+  const result = scanS3Storages(baseUrl, token);
+  storageScans.set(key, { startedAt: Date.now(), result });
+  result.catch(() => storageScans.delete(key));
+  return result;
+}
+
+async function scanS3Storages(baseUrl: string, token: string) {
+  const client = createCoolifyClient({ baseUrl, token });
+  const databases = await client.listDatabases();
+  const storages = new Set<string>();
+  const failures: unknown[] = [];
+  await forEachWithConcurrency(databases, 4, async (database) => {
+    if (!database.uuid) return;
+    try {
+      const backups = await client.listDatabaseBackups(database.uuid);
+      backups.forEach((backup) => backup.s3_storage_uuid && storages.add(backup.s3_storage_uuid));
+    } catch (error) {
+      failures.push(error);
+    }
+  });
+  if (failures.length > 0 && storages.size === 0) throw failures[0];
+  return [...storages].sort();
+}
+
+function s3Label(backup: ScheduledDatabaseBackup) {
+  if (!backup.save_s3) return "Local only";
+  return `S3 (${backup.s3_storage_uuid ?? backup.s3_storage_id ?? "default"})`;
+}
+
+export default function DatabaseBackupsList({
+  baseUrl,
+  token,
+  databaseUuid,
+  databaseName,
+  databaseUrl,
+}: {
+  baseUrl: string;
+  token: string;
+  databaseUuid: string;
+  databaseName: string;
+  databaseUrl?: string;
+}) {
+  const client = createCoolifyClient({ baseUrl, token });
+  const {
+    isLoading,
+    data: backups = [],
+    revalidate,
+  } = useCachedPromise(async (uuid: string) => client.listDatabaseBackups(uuid), [databaseUuid], {
+    keepPreviousData: true,
+  });
+  const backupsUrl = databaseUrl ? `${databaseUrl}/backups` : undefined;
+  const restoreUrl = databaseUrl ? `${databaseUrl}/import-backups` : undefined;
+
+  const createAction = (
+    <Action.Push
+      icon={Icon.Plus}
+      title="Create Schedule"
+      shortcut={{ modifiers: ["cmd"], key: "n" }}
+      target={<BackupScheduleForm baseUrl={baseUrl} token={token} databaseUuid={databaseUuid} onSaved={revalidate} />}
+    />
+  );
+
+  const backupNow = async (backup: ScheduledDatabaseBackup) => {
+    try {
+      await client.triggerDatabaseBackup(databaseUuid, String(backup.uuid));
+      await showToast({ style: Toast.Style.Success, title: "Backup started" });
+      await revalidate();
+    } catch (error) {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Failed to start backup",
+        message: getErrorMessage(error),
+      });
+    }
+  };
+
+  const toggleEnabled = async (backup: ScheduledDatabaseBackup) => {
+    try {
+      await client.updateDatabaseBackup(databaseUuid, String(backup.uuid), { enabled: !backup.enabled });
+      await showToast({ style: Toast.Style.Success, title: backup.enabled ? "Schedule disabled" : "Schedule enabled" });
+      await revalidate();
+    } catch (error) {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Failed to update schedule",
+        message: getErrorMessage(error),
+      });
+    }
+  };
+
+  return (
+    <List isLoading={isLoading} navigationTitle={`${databaseName} / Backups`} isShowingDetail={backups.length > 0}>
+      <List.Section title="Scheduled Backups" subtitle={`${backups.length}`}>
+        {backups.map((backup) => {
+          const latest = latestExecution(backup);
+          const failed = isFailed(latest);
+          return (
+            <List.Item
+              key={String(backup.uuid ?? backup.id)}
+              icon={
+                failed
+                  ? { source: Icon.XMarkCircle, tintColor: Color.Red }
+                  : backup.enabled
+                    ? { source: Icon.Clock, tintColor: Color.Green }
+                    : { source: Icon.CircleDisabled, tintColor: Color.SecondaryText }
+              }
+              title={frequencyLabel(backup.frequency)}
+              subtitle={backup.databases_to_backup ?? undefined}
+              detail={
+                <List.Item.Detail
+                  metadata={
+                    <List.Item.Detail.Metadata>
+                      <List.Item.Detail.Metadata.Label title="Frequency" text={backup.frequency ?? "-"} />
+                      <List.Item.Detail.Metadata.Label
+                        title="Enabled"
+                        icon={backup.enabled ? Icon.Check : Icon.Xmark}
+                      />
+                      <List.Item.Detail.Metadata.Label title="Destination" text={s3Label(backup)} />
+                      <List.Item.Detail.Metadata.Label
+                        title="Local Retention"
+                        text={`${backup.database_backup_retention_amount_locally || "∞"} backups / ${backup.database_backup_retention_days_locally || "∞"} days`}
+                      />
+                      {backup.databases_to_backup ? (
+                        <List.Item.Detail.Metadata.Label title="Databases" text={backup.databases_to_backup} />
+                      ) : null}
+                      <List.Item.Detail.Metadata.Separator />
+                      {latest ? (
+                        <>
+                          <List.Item.Detail.Metadata.TagList title="Last Run">
+                            <List.Item.Detail.Metadata.TagList.Item
+                              text={latest.status ?? "unknown"}
+                              color={executionColor(latest.status)}
+                            />
+                          </List.Item.Detail.Metadata.TagList>
+                          {latest.created_at ? (
+                            <List.Item.Detail.Metadata.Label
+                              title="Started"
+                              text={fromNow(new Date(latest.created_at).getTime(), new Date())}
+                            />
+                          ) : null}
+                          {latest.size ? (
+                            <List.Item.Detail.Metadata.Label title="Size" text={formatBytes(Number(latest.size))} />
+                          ) : null}
+                          {failed && latest.message ? (
+                            <List.Item.Detail.Metadata.Label title="Error" text={latest.message} />
+                          ) : null}
+                        </>
+                      ) : (
+                        <List.Item.Detail.Metadata.Label title="Last Run" text="Never" />
+                      )}
+                    </List.Item.Detail.Metadata>
+                  }
+                />
+              }
+              actions={
+                <ActionPanel>
+                  <Action.Push
+                    icon={Icon.List}
+                    title="Show Executions"
+                    target={
+                      <BackupExecutionsList
+                        baseUrl={baseUrl}
+                        token={token}
+                        databaseUuid={databaseUuid}
+                        backup={backup}
+                        backupsUrl={backupsUrl}
+                        restoreUrl={restoreUrl}
+                      />
+                    }
+                  />
+                  <Action
+                    icon={Icon.Upload}
+                    title="Backup Now"
+                    shortcut={{ modifiers: ["cmd"], key: "b" }}
+                    onAction={() => backupNow(backup)}
+                  />
+                  <Action.Push
+                    icon={Icon.Pencil}
+                    title="Edit Schedule"
+                    shortcut={{ modifiers: ["cmd"], key: "e" }}
+                    target={
+                      <BackupScheduleForm
+                        baseUrl={baseUrl}
+                        token={token}
+                        databaseUuid={databaseUuid}
+                        backup={backup}
+                        onSaved={revalidate}
+                      />
+                    }
+                  />
+                  <Action
+                    icon={backup.enabled ? Icon.Pause : Icon.Play}
+                    title={backup.enabled ? "Disable Schedule" : "Enable Schedule"}
+                    onAction={() => toggleEnabled(backup)}
+                  />
+                  {createAction}
+                  {backupsUrl ? (
+                    <Action.OpenInBrowser title="Open Backups in Coolify" url={backupsUrl} icon={Icon.Globe} />
+                  ) : null}
+                  {restoreUrl ? <RestoreAction url={restoreUrl} /> : null}
+                </ActionPanel>
+              }
+            />
+          );
+        })}
+      </List.Section>
+      {!isLoading && backups.length === 0 ? (
+        <List.EmptyView
+          icon={Icon.HardDrive}
+          title="No backups scheduled"
+          description="Create a schedule to back up this database."
+          actions={<ActionPanel>{createAction}</ActionPanel>}
+        />
+      ) : null}
+    </List>
+  );
+}
+
+// Coolify's API cannot restore backups, so restores go through the import page of the web UI.
+function RestoreAction({ url }: { url: string }) {
+  return <Action.OpenInBrowser title="Restore in Coolify" url={url} icon={Icon.RotateAntiClockwise} />;
+}
+
+function BackupExecutionsList({
+  baseUrl,
+  token,
+  databaseUuid,
+  backup,
+  backupsUrl,
+  restoreUrl,
+}: {
+  baseUrl: string;
+  token: string;
+  databaseUuid: string;
+  backup: ScheduledDatabaseBackup;
+  backupsUrl?: string;
+  restoreUrl?: string;
+}) {
+  const client = createCoolifyClient({ baseUrl, token });
+  const { isLoading, data, revalidate } = useCachedPromise(
+    async (uuid: string, backupUuid: string) => client.listBackupExecutions(uuid, backupUuid),
+    [databaseUuid, String(backup.uuid)],
+    { keepPreviousData: true },
+  );
+  const executions = [...(data ?? backup.executions ?? [])].sort((a, b) =>
+    String(b.created_at ?? "").localeCompare(String(a.created_at ?? "")),
+  );
+  const failedCount = executions.filter(isFailed).length;
+
+  return (
+    <List isLoading={isLoading} navigationTitle={`${frequencyLabel(backup.frequency)} Backups`}>
+      <List.Section
+        title="Executions"
+        subtitle={failedCount > 0 ? `${executions.length} runs, ${failedCount} failed` : `${executions.length} runs`}
+      >
+        {executions.map((execution) => {
+          const duration = executionDuration(execution);
+          const location = execution.filename ?? undefined;
+          return (
+            <List.Item
+              key={String(execution.uuid ?? execution.id)}
+              icon={
+                isFailed(execution)
+                  ? { source: Icon.XMarkCircle, tintColor: Color.Red }
+                  : { source: Icon.CheckCircle, tintColor: executionColor(execution.status) }
+              }
+              title={execution.created_at ? new Date(execution.created_at).toLocaleString() : "Unknown date"}
+              subtitle={isFailed(execution) ? (execution.message ?? undefined) : location?.split("/").pop()}
+              accessories={[
+                ...(execution.size ? [{ text: formatBytes(Number(execution.size)) }] : []),
+                ...(duration ? [{ icon: Icon.Stopwatch, text: duration }] : []),
+                ...(execution.s3_uploaded ? [{ tag: "S3" }] : []),
+                { tag: { value: execution.status ?? "unknown", color: executionColor(execution.status) } },
+              ]}
+              actions={
+                <ActionPanel>
+                  {location ? <Action.CopyToClipboard title="Copy Backup Location" content={location} /> : null}
+                  {backupsUrl ? (
+                    <Action.OpenInBrowser title="Open Backups Page to Download" url={backupsUrl} icon={Icon.Download} />
+                  ) : null}
+                  {restoreUrl ? <RestoreAction url={restoreUrl} /> : null}
+                  {execution.message ? (
+                    <Action.CopyToClipboard title="Copy Message" content={execution.message} />
+                  ) : null}
+                  <Action
+                    icon={Icon.ArrowClockwise}
+                    title="Refresh"
+                    shortcut={{ modifiers: ["cmd"], key: "r" }}
+                    onAction={revalidate}
+                  />
+                </ActionPanel>
+              }
+            />
+          );
+        })}
+      </List.Section>
+      {!isLoading && executions.length === 0 ? (
+        <List.EmptyView icon={Icon.Clock} title="No executions yet" description="This schedule has not run yet." />
+      ) : null}
+    </List>
+  );
+}
+
+function BackupScheduleForm({
+  baseUrl,
+  token,
+  databaseUuid,
+  backup,
+  onSaved,
+}: {
+  baseUrl: string;
+  token: string;
+  databaseUuid: string;
+  backup?: ScheduledDatabaseBackup;
+  onSaved: () => void;
+}) {
+  const { pop } = useNavigation();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const isPreset = !backup?.frequency || FREQUENCIES.some((item) => item.value === backup.frequency);
+
+  const { itemProps, handleSubmit, values, setValidationError } = useForm<ScheduleFormValues>({
+    onSubmit: async () => {
+      const frequency = values.frequency === CUSTOM_FREQUENCY ? values.cron.trim() : values.frequency;
+      if (values.frequency === CUSTOM_FREQUENCY && frequency.split(/\s+/).length !== 5) {
+        setValidationError("cron", "Use a cron expression with 5 fields, e.g. 0 3 * * *");
+        return false;
+      }
+      for (const field of ["retentionAmount", "retentionDays"] as const) {
+        const value = values[field].trim();
+        if (value && !(Number.isInteger(Number(value)) && Number(value) >= 0)) {
+          setValidationError(field, "Use a whole number, 0 keeps everything");
+          return false;
+        }
+      }
+
+      const body: Record<string, unknown> = {
+        frequency,
+        enabled: values.enabled,
+        save_s3: values.saveS3,
+        database_backup_retention_amount_locally: Number(values.retentionAmount || 0),
+        database_backup_retention_days_locally: Number(values.retentionDays || 0),
+      };
+      if (values.databasesToBackup.trim()) body.databases_to_backup = values.databasesToBackup.trim();
+      const storageUuid = values.s3Storage === OTHER_STORAGE ? values.s3StorageUuid.trim() : values.s3Storage;
+      if (values.saveS3 && values.s3Storage === OTHER_STORAGE && !storageUuid) {
+        setValidationError("s3StorageUuid", "The item is required");
+        return false;
+      }
+      if (values.saveS3 && storageUuid) body.s3_storage_uuid = storageUuid;
+
+      setIsSubmitting(true);
+      try {
+        const client = createCoolifyClient({ baseUrl, token });
+        if (backup?.uuid) {
+          await client.updateDatabaseBackup(databaseUuid, backup.uuid, body);
+        } else {
+          await client.createDatabaseBackup(databaseUuid, body);
+        }
+        await showToast({ style: Toast.Style.Success, title: backup ? "Schedule updated" : "Schedule created" });
+        onSaved();
+        pop();
+      } catch (error) {
+        await showToast({
+          style: Toast.Style.Failure,
+          title: "Failed to save schedule",
+          message: getErrorMessage(error),
+        });
+      } finally {
+        setIsSubmitting(false);
+      }
+    },
+    initialValues: {
+      frequency: isPreset ? (backup?.frequency ?? "daily") : CUSTOM_FREQUENCY,
+      cron: isPreset ? "" : (backup?.frequency ?? ""),
+      enabled: backup?.enabled ?? true,
+      databasesToBackup: backup?.databases_to_backup ?? "",
+      retentionAmount: String(backup?.database_backup_retention_amount_locally ?? 0),
+      retentionDays: String(backup?.database_backup_retention_days_locally ?? 0),
+      saveS3: backup?.save_s3 ?? false,
+      s3Storage: backup?.s3_storage_uuid ?? DEFAULT_STORAGE,
+      s3StorageUuid: "",
+    },
+  });
+
+  // Only scan for storages once S3 uploads are wanted.
+  const { data: knownStorages = [], isLoading: isLoadingStorages } = useCachedPromise(
+    loadKnownS3Storages,
+    [baseUrl, token],
+    {
+      execute: values.saveS3,
+      keepPreviousData: true,
+      onError: async (error) => {
+        await showToast({
+          style: Toast.Style.Failure,
+          title: "Failed to load S3 storages",
+          message: getErrorMessage(error),
+        });
+      },
+    },
+  );
+  const storages = [...new Set([...knownStorages, ...(backup?.s3_storage_uuid ? [backup.s3_storage_uuid] : [])])];
+
+  return (
+    <Form
+      isLoading={isSubmitting || isLoadingStorages}
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm
+            icon={Icon.Check}
+            title={backup ? "Update Schedule" : "Create Schedule"}
+            onSubmit={handleSubmit}
+          />
+        </ActionPanel>
+      }
+    >
+      <Form.Dropdown title="Frequency" {...itemProps.frequency}>
+        {FREQUENCIES.map((item) => (
+          <Form.Dropdown.Item key={item.value} title={item.title} value={item.value} />
+        ))}
+        <Form.Dropdown.Item title="Custom (Cron)" value={CUSTOM_FREQUENCY} />
+      </Form.Dropdown>
+      {values.frequency === CUSTOM_FREQUENCY ? (
+        <Form.TextField title="Cron Expression" placeholder="0 3 * * *" {...itemProps.cron} />
+      ) : null}
+      <Form.Checkbox label="Enabled" {...itemProps.enabled} />
+      <Form.TextField
+        title="Databases"
+        placeholder="All databases"
+        info="Comma-separated database names. Leave empty to use the default."
+        {...itemProps.databasesToBackup}
+      />
+      <Form.Separator />
+      <Form.TextField
+        title="Keep Backups"
+        info="Number of local backups to keep. 0 keeps all."
+        {...itemProps.retentionAmount}
+      />
+      <Form.TextField title="Keep Days" info="Days to keep local backups. 0 keeps all." {...itemProps.retentionDays} />
+      <Form.Checkbox label="Upload to S3" {...itemProps.saveS3} />
+      {values.saveS3 ? (
+        <Form.Dropdown
+          title="S3 Storage"
+          info="Storages already used by backup schedules. Pick Other for a storage that no schedule uses yet."
+          {...itemProps.s3Storage}
+        >
+          <Form.Dropdown.Item title="Default Storage" value={DEFAULT_STORAGE} />
+          {storages.map((uuid) => (
+            <Form.Dropdown.Item key={uuid} title={uuid} value={uuid} />
+          ))}
+          <Form.Dropdown.Item title="Other…" value={OTHER_STORAGE} />
+        </Form.Dropdown>
+      ) : null}
+      {values.saveS3 && values.s3Storage === OTHER_STORAGE ? (
+        <Form.TextField
+          title="S3 Storage UUID"
+          info="Find it under Storages in Coolify."
+          {...itemProps.s3StorageUuid}
+        />
+      ) : null}
+    </Form>
+  );
+}
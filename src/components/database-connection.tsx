@@ -0,0 +1,153 @@
+import { Action, ActionPanel, Clipboard, Detail, Icon, Toast, open, showToast } from "@raycast/api";
+import { usePromise } from "@raycast/utils";
+import { useState } from "react";
+import { createCoolifyClient } from "../api/coolify";
+import { getErrorMessage } from "../api/errors";
+import {
+  ConnectionTarget,
+  buildClientCommand,
+  buildDatabaseConnection,
+  getEngineTitle,
+  maskSecret,
+} from "../lib/database-connection";
+
+export default function DatabaseConnectionDetail({
+  baseUrl,
+  token,
+  databaseUuid,
+  databaseName,
+}: {
+  baseUrl: string;
+  token: string;
+  databaseUuid: string;
+  databaseName: string;
+}) {
+  const [showPassword, setShowPassword] = useState(false);
+  const { data: database, isLoading } = usePromise(
+    async (uuid: string) => createCoolifyClient({ baseUrl, token }).getDatabase(uuid),
+    [databaseUuid],
+    {
+      onError: async (error) => {
+        await showToast({
+          style: Toast.Style.Failure,
+          title: "Failed to load database",
+          message: getErrorMessage(error),
+        });
+      },
+    },
+  );
+
+  const connection = database ? buildDatabaseConnection(database) : undefined;
+  const password = connection?.internal.password;
+  const display = (text: string) => (showPassword ? text : maskSecret(text, password, connection?.public?.password));
+
+  const targets = connection
+    ? ([
+        ["Internal", connection.internal],
+        ["Public", connection.public],
+      ].filter(([, target]) => target) as [string, ConnectionTarget][])
+    : [];
+
+  const markdown = !database
+    ? ""
+    : !connection
+      ? `# ${databaseName}\n\nConnection strings are not available for ${getEngineTitle(database.db_type)}.`
+      : [
+          `# ${databaseName}`,
+          ...targets.flatMap(([label, target]) => [
+            `## ${label} URL`,
+            `\`\`\`\n${display(target.url)}\n\`\`\``,
+            `\`\`\`bash\n${display(buildClientCommand(database, target) ?? "")}\n\`\`\``,
+          ]),
+          connection.public
+            ? ""
+            : "_This database is not publicly accessible. The internal URL only works from other resources on the same Docker network._",
+        ].join("\n\n");
+
+  const copySecret = async (title: string, content: string) => {
+    await Clipboard.copy(content, { concealed: true });
+    await showToast({ style: Toast.Style.Success, title });
+  };
+
+  const openInClient = async (target: ConnectionTarget) => {
+    try {
+      await open(target.url);
+    } catch (error) {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "No app can open this URL",
+        message: getErrorMessage(error),
+      });
+    }
+  };
+
+  return (
+    <Detail
+      isLoading={isLoading}
+      navigationTitle={`${databaseName} / Connection`}
+      markdown={markdown}
+      metadata={
+        connection ? (
+          <Detail.Metadata>
+            <Detail.Metadata.Label title="Engine" text={connection.engine} />
+            <Detail.Metadata.Label
+              title="Internal Host"
+              text={`${connection.internal.host}:${connection.internal.port}`}
+            />
+            {connection.public ? (
+              <Detail.Metadata.Label title="Public Host" text={`${connection.public.host}:${connection.public.port}`} />
+            ) : (
+              <Detail.Metadata.Label title="Public" text="Disabled" />
+            )}
+            {connection.internal.user ? <Detail.Metadata.Label title="User" text={connection.internal.user} /> : null}
+            {connection.internal.database ? (
+              <Detail.Metadata.Label title="Database" text={connection.internal.database} />
+            ) : null}
+          </Detail.Metadata>
+        ) : null
+      }
+      actions={
+        connection && database ? (
+          <ActionPanel>
+            {targets.map(([label, target]) => (
+              <ActionPanel.Section key={label} title={label}>
+                <Action
+                  icon={Icon.Clipboard}
+                  title={`Copy ${label} URL`}
+                  onAction={() => copySecret(`Copied ${label.toLowerCase()} URL`, target.url)}
+                />
+                <Action
+                  icon={Icon.Terminal}
+                  title={`Copy ${label} Command`}
+                  onAction={() =>
+                    copySecret(`Copied ${label.toLowerCase()} command`, buildClientCommand(database, target) ?? "")
+                  }
+                />
+                <Action
+                  icon={Icon.AppWindow}
+                  title={`Open ${label} URL in Client`}
+                  onAction={() => openInClient(target)}
+                />
+              </ActionPanel.Section>
+            ))}
+            <ActionPanel.Section>
+              <Action
+                icon={showPassword ? Icon.EyeDisabled : Icon.Eye}
+                title={showPassword ? "Hide Password" : "Reveal Password"}
+                shortcut={{ modifiers: ["cmd", "shift"], key: "r" }}
+                onAction={() => setShowPassword((current) => !current)}
+              />
+              {password ? (
+                <Action
+                  icon={Icon.Key}
+                  title="Copy Password"
+                  onAction={() => copySecret("Copied password", password)}
+                />
+              ) : null}
+            </ActionPanel.Section>
+          </ActionPanel>
+        ) : null
+      }
+    />
+  );
+}
@@ -0,0 +1,217 @@
+import {
+  Action,
+  ActionPanel,
+  Alert,
+  Clipboard,
+  Form,
+  Icon,
+  Toast,
+  confirmAlert,
+  showToast,
+  useNavigation,
+} from "@raycast/api";
+import { useForm, usePromise } from "@raycast/utils";
+import { useState } from "react";
+import { createCoolifyClient } from "../api/coolify";
+import { getErrorMessage } from "../api/errors";
+import {
+  buildDatabaseConnection,
+  buildPublicUrl,
+  findPortConflicts,
+  getDefaultPort,
+  maskSecret,
+} from "../lib/database-connection";
+import { Database } from "../lib/resources";
+
+function parsePort(value: string) {
+  const port = Number(value.trim());
+  return Number.isInteger(port) && port >= 1 && port <= 65535 ? port : undefined;
+}
+
+function ExposeDatabaseForm({
+  baseUrl,
+  token,
+  databaseUuid,
+  databaseName,
+  onUpdated,
+}: {
+  baseUrl: string;
+  token: string;
+  databaseUuid: string;
+  databaseName: string;
+  onUpdated?: () => void;
+}) {
+  const client = createCoolifyClient({ baseUrl, token });
+  const { pop } = useNavigation();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const { data, isLoading } = usePromise(
+    async (uuid: string) => {
+      const database = await client.getDatabase(uuid);
+      const serverUuid = database.destination?.server?.uuid;
+      if (!serverUuid) return { database, serverResources: [], databases: [], conflictsChecked: false };
+      const [serverResources, databases] = await Promise.all([
+        client.listServerResources(serverUuid),
+        client.listDatabases(),
+      ]);
+      return { database, serverResources, databases, conflictsChecked: true };
+    },
+    [databaseUuid],
+    {
+      onData: ({ database }) =>
+        setValue("port", String(database.public_port ?? getDefaultPort(database.db_type) ?? "")),
+      onError: async (error) => {
+        await showToast({
+          style: Toast.Style.Failure,
+          title: "Failed to load database",
+          message: getErrorMessage(error),
+        });
+      },
+    },
+  );
+
+  const { itemProps, handleSubmit, values, setValue } = useForm<{ port: string }>({
+    onSubmit: async () => {
+      if (!data) return false;
+      const port = parsePort(values.port);
+      if (!port) return false;
+
+      const conflicts = findPortConflicts(data.database, port, data.serverResources, data.databases);
+      if (conflicts.length > 0) {
+        const confirmed = await confirmAlert({
+          title: `Port ${port} Is Already in Use`,
+          message: `${conflicts.map((other) => other.name ?? other.uuid).join(", ")} already listens on this port. The proxy will fail to start.`,
+          primaryAction: { title: "Expose Anyway", style: Alert.ActionStyle.Destructive },
+        });
+        if (!confirmed) return false;
+      }
+
+      setIsSubmitting(true);
+      try {
+        await client.updateDatabase(databaseUuid, { is_public: true, public_port: port });
+        const serverIp = data.database.destination?.server?.ip;
+        const url = serverIp ? buildPublicUrl(data.database, serverIp, port) : undefined;
+        await showToast({
+          style: Toast.Style.Success,
+          title: `${databaseName} is now public`,
+          message: serverIp ? `${serverIp}:${port}` : `Port ${port}`,
+          primaryAction: url
+            ? { title: "Copy Connection String", onAction: () => Clipboard.copy(url, { concealed: true }) }
+            : undefined,
+        });
+        onUpdated?.();
+        pop();
+      } catch (error) {
+        await showToast({
+          style: Toast.Style.Failure,
+          title: "Failed to expose database",
+          message: getErrorMessage(error),
+        });
+      } finally {
+        setIsSubmitting(false);
+      }
+    },
+    validation: {
+      port: (value) => (parsePort(value ?? "") ? undefined : "Enter a port between 1 and 65535"),
+    },
+    initialValues: {
+      port: "",
+    },
+  });
+
+  const serverIp = data?.database.destination?.server?.ip;
+  const port = parsePort(values.port);
+  const conflicts = data && port ? findPortConflicts(data.database, port, data.serverResources, data.databases) : [];
+  const publicUrl = data && port && serverIp ? buildPublicUrl(data.database, serverIp, port) : undefined;
+  const password = data ? buildDatabaseConnection(data.database)?.internal.password : undefined;
+
+  return (
+    <Form
+      isLoading={isLoading || isSubmitting}
+      navigationTitle={`Expose ${databaseName}`}
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm icon={Icon.Globe} title="Expose Publicly" onSubmit={handleSubmit} />
+        </ActionPanel>
+      }
+    >
+      <Form.Description text="Expose the database on a port of its server through a TCP proxy." />
+      <Form.TextField title="Public Port" placeholder="5432" {...itemProps.port} />
+      {conflicts.length > 0 ? (
+        <Form.Description
+          title="⚠️ Port Conflict"
+          text={`Already used by ${conflicts.map((other) => other.name ?? other.uuid).join(", ")} on this server.`}
+        />
+      ) : null}
+      {data && !data.conflictsChecked ? (
+        <Form.Description
+          title="⚠️ Conflicts Not Checked"
+          text="Coolify did not return this database's server, so other resources using the port could not be checked."
+        />
+      ) : null}
+      <Form.Description
+        title="Connection String"
+        text={publicUrl ? maskSecret(publicUrl, password) : serverIp ? "Enter a valid port" : "Server IP unknown"}
+      />
+    </Form>
+  );
+}
+
+export function DatabaseExposureAction({
+  baseUrl,
+  token,
+  database,
+  onUpdated,
+}: {
+  baseUrl: string;
+  token: string;
+  database: Database;
+  onUpdated?: () => void;
+}) {
+  const uuid = String(database.uuid);
+  const name = database.name ?? "Database";
+
+  if (!database.is_public) {
+    return (
+      <Action.Push
+        title="Expose Publicly"
+        icon={Icon.Globe}
+        target={
+          <ExposeDatabaseForm
+            baseUrl={baseUrl}
+            token={token}
+            databaseUuid={uuid}
+            databaseName={name}
+            onUpdated={onUpdated}
+          />
+        }
+      />
+    );
+  }
+
+  return (
+    <Action
+      title="Make Private"
+      icon={Icon.Lock}
+      onAction={async () => {
+        const confirmed = await confirmAlert({
+          title: `Make ${name} Private?`,
+          message: `Port ${database.public_port ?? "—"} will be closed and external clients will be disconnected.`,
+          primaryAction: { title: "Make Private", style: Alert.ActionStyle.Destructive },
+        });
+        if (!confirmed) return;
+        try {
+          await createCoolifyClient({ baseUrl, token }).updateDatabase(uuid, { is_public: false });
+          await showToast({ style: Toast.Style.Success, title: `${name} is now private` });
+          onUpdated?.();
+        } catch (error) {
+          await showToast({
+            style: Toast.Style.Failure,
+            title: "Failed to make database private",
+            message: getErrorMessage(error),
+          });
+        }
+      }}
+    />
+  );
+}
@@ -1,14 +1,9 @@
 import { Action, ActionPanel, Form, Icon, showToast, Toast, useNavigation } from "@raycast/api";
 import { useForm } from "@raycast/utils";
 import { useState } from "react";
-import { requestJson } from "../api/client";
-
-type DeleteResourceValues = {
-  delete_volumes: boolean;
-  delete_connected_networks: boolean;
-  delete_configurations: boolean;
-  docker_cleanup: boolean;
-};
+import { DeleteResourceOptions, createCoolifyClient } from "../api/coolify";
+import { getErrorMessage } from "../api/errors";
+import { ResourceType } from "../lib/resources";
 
 export default function DeleteResourceForm({
   baseUrl,
@@ -19,24 +14,18 @@ export default function DeleteResourceForm({
 }: {
   baseUrl: string;
   token: string;
-  resourceType: string;
+  resourceType: ResourceType;
   uuid: string;
   onDeleted?: () => void;
 }) {
   const { pop } = useNavigation();
   const [isSubmitting, setIsSubmitting] = useState(false);
 
-  const { handleSubmit, itemProps, values } = useForm<DeleteResourceValues>({
+  const { handleSubmit, itemProps, values } = useForm<DeleteResourceOptions>({
     onSubmit: async () => {
       setIsSubmitting(true);
-      const params = new URLSearchParams({
-        delete_volumes: String(values.delete_volumes),
-        delete_connected_networks: String(values.delete_connected_networks),
-        delete_configurations: String(values.delete_configurations),
-        docker_cleanup: String(values.docker_cleanup),
-      });
       try {
-        await requestJson(`/${resourceType}s/${uuid}?${params}`, { baseUrl, token, method: "DELETE" });
+        await createCoolifyClient({ baseUrl, token }).deleteResource(resourceType, uuid, values);
         await showToast({ style: Toast.Style.Success, title: "Resource deleted" });
         onDeleted?.();
         pop();
@@ -44,7 +33,7 @@ export default function DeleteResourceForm({
         await showToast({
           style: Toast.Style.Failure,
           title: "Failed to delete resource",
-          message: error instanceof Error ? error.message : String(error),
+          message: getErrorMessage(error),
         });
       } finally {
         setIsSubmitting(false);
@@ -0,0 +1,150 @@
+import { Action, ActionPanel, Color, Detail, Icon, Toast, showToast } from "@raycast/api";
+import { useEffect, useRef, useState } from "react";
+import { createCoolifyClient } from "../api/coolify";
+import { CoolifyApiError, getErrorMessage } from "../api/errors";
+import { Deployment } from "../api/types";
+import { DeploymentLogEntry, formatLogEntry, isActiveStatus, parseDeploymentLogs } from "../lib/deployments";
+
+const POLL_INTERVAL_MS = 3000;
+const MAX_BACKOFF_MS = 30000;
+const MAX_RENDERED_LINES = 1000;
+
+// Client errors other than rate limiting will not go away by asking again.
+function isPermanentError(error: unknown) {
+  return error instanceof CoolifyApiError && error.status >= 400 && error.status < 500 && error.status !== 429;
+}
+
+function formatStatus(status?: string) {
+  if (!status) return "unknown";
+  return status.replace(/[_-]/g, " ").replace(/\b\w/g, (match) => match.toUpperCase());
+}
+
+function statusColor(status?: string) {
+  if (isActiveStatus(status)) return Color.Blue;
+  const value = (status ?? "").toLowerCase();
+  if (value.includes("fail") || value.includes("cancel")) return Color.Red;
+  if (value.includes("finished") || value.includes("success")) return Color.Green;
+  return Color.SecondaryText;
+}
+
+export default function DeploymentLogsDetail({
+  baseUrl,
+  token,
+  deploymentUuid,
+  title,
+}: {
+  baseUrl: string;
+  token: string;
+  deploymentUuid: string;
+  title?: string;
+}) {
+  const [deployment, setDeployment] = useState<Deployment>();
+  const [entries, setEntries] = useState<DeploymentLogEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [showHidden, setShowHidden] = useState(false);
+  const [failures, setFailures] = useState(0);
+  const seenKeys = useRef(new Set<string>());
+
+  const isActive = Boolean(deployment) && isActiveStatus(deployment?.status);
+
+  useEffect(() => {
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let failed = 0;
+    const poll = async () => {
+      let keepPolling = false;
+      try {
+        const next = await createCoolifyClient({ baseUrl, token }).getDeployment(deploymentUuid);
+        if (cancelled) return;
+        const fresh = parseDeploymentLogs(next.logs).filter((entry) => !seenKeys.current.has(entry.key));
+        fresh.forEach((entry) => seenKeys.current.add(entry.key));
+        if (fresh.length > 0) setEntries((previous) => [...previous, ...fresh]);
+        setDeployment(next);
+        keepPolling = isActiveStatus(next.status);
+        failed = 0;
+      } catch (error) {
+        if (cancelled) return;
+        failed += 1;
+        // A dropped request says nothing about the deployment, so keep streaming with backoff.
+        keepPolling = !isPermanentError(error);
+        if (failed === 1 || !keepPolling) {
+          await showToast({
+            style: Toast.Style.Failure,
+            title: keepPolling ? "Failed to fetch deployment logs, retrying" : "Failed to fetch deployment logs",
+            message: getErrorMessage(error),
+          });
+        }
+      } finally {
+        if (!cancelled) {
+          setIsLoading(false);
+          setFailures(failed);
+        }
+      }
+      if (!cancelled && keepPolling) {
+        timer = setTimeout(poll, Math.min(POLL_INTERVAL_MS * 2 ** failed, MAX_BACKOFF_MS));
+      }
+    };
+
+    poll();
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [baseUrl, token, deploymentUuid]);
+
+  const visible = entries.filter((entry) => showHidden || !entry.hidden);
+  const text = visible.map((entry) => formatLogEntry(entry, { showCommands: showHidden })).join("\n");
+  const lines = text.split("\n");
+  const truncated = lines.length > MAX_RENDERED_LINES;
+  const rendered = truncated ? lines.slice(-MAX_RENDERED_LINES).join("\n") : text;
+
+  const heading = `# ${title ?? "Deployment Logs"}`;
+  const notice = truncated
+    ? `\n\n_Showing the last ${MAX_RENDERED_LINES} lines. Copy the logs to see everything._`
+    : "";
+  const body = rendered.trim() ? `\`\`\`\n${rendered}\n\`\`\`` : isLoading ? "" : "No logs yet.";
+  const markdown = `${heading}${notice}\n\n${body}`;
+
+  return (
+    <Detail
+      isLoading={isLoading || isActive}
+      markdown={markdown}
+      navigationTitle={isActive ? "Streaming Deployment Logs" : "Deployment Logs"}
+      metadata={
+        <Detail.Metadata>
+          <Detail.Metadata.TagList title="Status">
+            <Detail.Metadata.TagList.Item
+              text={formatStatus(deployment?.status)}
+              color={statusColor(deployment?.status)}
+            />
+          </Detail.Metadata.TagList>
+          <Detail.Metadata.Label title="Entries" text={String(visible.length)} />
+          <Detail.Metadata.Label
+            title="Errors"
+            text={String(visible.filter((entry) => entry.type === "stderr").length)}
+          />
+          <Detail.Metadata.Label
+            title="Auto Refresh"
+            text={failures > 0 ? `Retrying after ${failures} failed requests` : isActive ? "On" : "Stopped"}
+          />
+        </Detail.Metadata>
+      }
+      actions={
+        <ActionPanel>
+          <Action
+            title={showHidden ? "Hide Hidden Commands" : "Show Hidden Commands"}
+            icon={showHidden ? Icon.EyeDisabled : Icon.Eye}
+            shortcut={{ modifiers: ["cmd", "shift"], key: "h" }}
+            onAction={() => setShowHidden((value) => !value)}
+          />
+          <Action.CopyToClipboard
+            title="Copy Logs"
+            content={text}
+            shortcut={{ modifiers: ["cmd", "shift"], key: "c" }}
+          />
+          <Action.CopyToClipboard title="Copy Deployment UUID" content={deploymentUuid} />
+        </ActionPanel>
+      }
+    />
+  );
+}
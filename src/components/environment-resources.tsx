@@ -1,9 +1,10 @@
 import { Action, ActionPanel, Icon, List } from "@raycast/api";
 import { useCachedPromise } from "@raycast/utils";
 import { useMemo } from "react";
-import { requestJson } from "../api/client";
+import { createCoolifyClient } from "../api/coolify";
 import { toId } from "../api/filters";
-import { Application, Database, ResourceType, Service, buildResources } from "../lib/resources";
+import { useEnvVarsSupport } from "../lib/env-var-support";
+import { ResourceType, buildResources } from "../lib/resources";
 import EnvironmentVariablesList from "./environment-variables";
 import { buildConsoleLogsUrl, LogsSubmenu } from "./logs-actions";
 import { RedeploySubmenu } from "./redeploy-actions";
@@ -12,6 +13,7 @@ import { ResourceDetails } from "./resource-details";
 type EnvironmentResourcesProps = {
   baseUrl: string;
   token: string;
+  profileId: string;
   instanceUrl: string;
   projectUuid?: string;
   environmentId?: string;
@@ -55,6 +57,7 @@ function typeIcon(type: ResourceType) {
 export default function EnvironmentResourcesList({
   baseUrl,
   token,
+  profileId,
   instanceUrl,
   projectUuid,
   environmentId,
@@ -62,21 +65,25 @@ export default function EnvironmentResourcesList({
   environmentName,
 }: EnvironmentResourcesProps) {
   const { data: applications, isLoading: isLoadingApplications } = useCachedPromise(
-    async () => requestJson<Application[]>("/applications", { baseUrl, token }),
-    [],
+    async (currentProfileId: string, currentBaseUrl: string) =>
+      createCoolifyClient({ baseUrl: currentBaseUrl, token }).listApplications(),
+    [profileId, baseUrl],
     { keepPreviousData: true },
   );
   const { data: services, isLoading: isLoadingServices } = useCachedPromise(
-    async () => requestJson<Service[]>("/services", { baseUrl, token }),
-    [],
+    async (currentProfileId: string, currentBaseUrl: string) =>
+      createCoolifyClient({ baseUrl: currentBaseUrl, token }).listServices(),
+    [profileId, baseUrl],
     { keepPreviousData: true },
   );
   const { data: databases, isLoading: isLoadingDatabases } = useCachedPromise(
-    async () => requestJson<Database[]>("/databases", { baseUrl, token }),
-    [],
+    async (currentProfileId: string, currentBaseUrl: string) =>
+      createCoolifyClient({ baseUrl: currentBaseUrl, token }).listDatabases(),
+    [profileId, baseUrl],
     { keepPreviousData: true },
   );
 
+  const supportsDatabaseVariables = useEnvVarsSupport(baseUrl, token, "database", databases?.[0]?.uuid);
   const resources = useMemo(
     () => buildResources(applications ?? [], services ?? [], databases ?? []),
     [applications, databases, services],
@@ -118,7 +125,6 @@ export default function EnvironmentResourcesList({
                 applicationUuid: item.uuid,
               })
             : undefined;
-        const canViewEnvVars = item.type === "application" || item.type === "service";
         const accessories = [
           {
             tag: {
@@ -160,7 +166,7 @@ export default function EnvironmentResourcesList({
                 {item.url ? <Action.OpenInBrowser title="Open Application" url={item.url} icon={Icon.Link} /> : null}
                 <Action.OpenInBrowser title="Open Environment in Coolify" url={environmentUrl} icon={Icon.Globe} />
                 <ActionPanel.Section>
-                  {canViewEnvVars && item.uuid ? (
+                  {item.uuid && (item.type !== "database" || supportsDatabaseVariables) ? (
                     <Action.Push
                       title="View Environment Variables"
                       icon={Icon.Terminal}
@@ -169,9 +175,11 @@ export default function EnvironmentResourcesList({
                           baseUrl={baseUrl}
                           token={token}
                           resource={{
-                            type: item.type === "service" ? "service" : "application",
+                            type: item.type,
                             uuid: String(item.uuid),
                             name: item.name,
+                            projectUuid: projectUuid,
+                            environmentUuid: environmentUuid,
                           }}
                         />
                       }
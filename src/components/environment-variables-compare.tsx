@@ -0,0 +1,254 @@
+import { Action, ActionPanel, Color, Icon, List, Toast, confirmAlert, showToast } from "@raycast/api";
+import { usePromise } from "@raycast/utils";
+import { useState } from "react";
+import { createCoolifyClient } from "../api/coolify";
+import { getErrorMessage } from "../api/errors";
+import { useEnvVarsSupport } from "../lib/env-var-support";
+import { EnvDiff, EnvDiffStatus, compareEnvVars, envValue, toEnvPayload } from "../lib/env-diff";
+import { confirmSecretAccess, maskValue } from "../lib/secrets";
+import { EnvVarResource } from "./environment-variables";
+
+export function EnvVarResourcePicker({
+  baseUrl,
+  token,
+  source,
+}: {
+  baseUrl: string;
+  token: string;
+  source: EnvVarResource;
+}) {
+  const client = createCoolifyClient({ baseUrl, token });
+  const { isLoading, data: resources = [] } = usePromise(async () => {
+    const [apps, services, databases] = await Promise.all([
+      client.listApplications(),
+      client.listServices(),
+      client.listDatabases(),
+    ]);
+    return [
+      ...apps.map((app) => ({ type: "application" as const, uuid: app.uuid ?? "", name: app.name ?? "Application" })),
+      ...services.map((service) => ({
+        type: "service" as const,
+        uuid: service.uuid ?? "",
+        name: service.name ?? "Service",
+      })),
+      ...databases.map((database) => ({
+        type: "database" as const,
+        uuid: database.uuid ?? "",
+        name: database.name ?? "Database",
+      })),
+    ].filter((resource) => resource.uuid && resource.uuid !== source.uuid);
+  });
+  const supportsDatabaseVariables = useEnvVarsSupport(
+    baseUrl,
+    token,
+    "database",
+    resources.find((resource) => resource.type === "database")?.uuid,
+  );
+  const comparable = resources.filter((resource) => resource.type !== "database" || supportsDatabaseVariables);
+
+  return (
+    <List isLoading={isLoading} navigationTitle={`Compare ${source.name}`} searchBarPlaceholder="Compare with...">
+      {comparable.map((resource) => (
+        <List.Item
+          key={resource.uuid}
+          icon={
+            resource.type === "application"
+              ? Icon.AppWindow
+              : resource.type === "database"
+                ? Icon.HardDrive
+                : Icon.Layers
+          }
+          title={resource.name}
+          accessories={[{ tag: resource.type }]}
+          actions={
+            <ActionPanel>
+              <Action.Push
+                icon={Icon.Switch}
+                title="Compare Variables"
+                target={<EnvVarCompareList baseUrl={baseUrl} token={token} left={source} right={resource} />}
+              />
+            </ActionPanel>
+          }
+        />
+      ))}
+    </List>
+  );
+}
+
+export function EnvVarCompareList({
+  baseUrl,
+  token,
+  left,
+  right,
+}: {
+  baseUrl: string;
+  token: string;
+  left: EnvVarResource;
+  right: EnvVarResource;
+}) {
+  const client = createCoolifyClient({ baseUrl, token });
+  const [showValues, setShowValues] = useState(false);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [isSyncing, setIsSyncing] = useState(false);
+
+  const { isLoading, data, revalidate } = usePromise(
+    async (leftResource: EnvVarResource, rightResource: EnvVarResource) => {
+      const [leftEnvs, rightEnvs] = await Promise.all([
+        client.listEnvironmentVariables(leftResource.type, leftResource.uuid),
+        client.listEnvironmentVariables(rightResource.type, rightResource.uuid),
+      ]);
+      return compareEnvVars(leftEnvs, rightEnvs);
+    },
+    [left, right],
+  );
+  const diffs = data ?? [];
+  const differences = diffs.filter((diff) => diff.status !== "same");
+
+  const sections: { status: EnvDiffStatus; title: string }[] = [
+    { status: "only-left", title: `Missing in ${right.name}` },
+    { status: "only-right", title: `Missing in ${left.name}` },
+    { status: "value", title: "Different Values" },
+    { status: "flags", title: "Different Flags" },
+    { status: "same", title: "Matching" },
+  ];
+
+  const toggle = (id: string) =>
+    setSelected((current) => {
+      const next = new Set(current);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+
+  const formatValue = (value: string | undefined) => {
+    if (value === undefined) return "—";
+    if (!showValues) return maskValue(value);
+    return value || "(empty)";
+  };
+
+  const copyTo = async (target: "left" | "right", focused: EnvDiff) => {
+    const from = target === "right" ? "left" : "right";
+    const source = target === "right" ? left : right;
+    const destination = target === "right" ? right : left;
+    const picked = selected.size > 0 ? diffs.filter((diff) => selected.has(diff.id)) : [focused];
+    const payload = picked.flatMap((diff) => (diff[from] ? [toEnvPayload(diff[from])] : []));
+    if (payload.length === 0) {
+      await showToast({ style: Toast.Style.Failure, title: `Nothing to copy from ${source.name}` });
+      return;
+    }
+
+    const confirmed = await confirmAlert({
+      title: `Copy ${payload.length} ${payload.length === 1 ? "Variable" : "Variables"} to ${destination.name}?`,
+      message: payload.map((env) => env.key).join(", "),
+      primaryAction: { title: "Copy" },
+    });
+    if (!confirmed) return;
+
+    setIsSyncing(true);
+    try {
+      await client.updateEnvironmentVariablesBulk(destination.type, destination.uuid, payload);
+      await showToast({
+        style: Toast.Style.Success,
+        title: `Copied ${payload.length} variables to ${destination.name}`,
+      });
+      setSelected(new Set());
+      await revalidate();
+    } catch (error) {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Failed to copy variables",
+        message: getErrorMessage(error),
+      });
+    } finally {
+      setIsSyncing(false);
+    }
+  };
+
+  return (
+    <List
+      isLoading={isLoading || isSyncing}
+      navigationTitle={`${left.name} ↔ ${right.name}`}
+      searchBarPlaceholder={`${differences.length} differences, ${selected.size} selected`}
+    >
+      {sections.map((section) => {
+        const items = diffs.filter((diff) => diff.status === section.status);
+        return (
+          <List.Section key={section.status} title={section.title} subtitle={`${items.length}`}>
+            {items.map((diff) => (
+              <List.Item
+                key={diff.id}
+                icon={
+                  selected.has(diff.id)
+                    ? { source: Icon.CheckCircle, tintColor: Color.Green }
+                    : diff.status === "same"
+                      ? Icon.Circle
+                      : { source: Icon.Circle, tintColor: Color.Orange }
+                }
+                title={diff.key}
+                subtitle={`${formatValue(diff.left && envValue(diff.left))} → ${formatValue(diff.right && envValue(diff.right))}`}
+                accessories={[
+                  ...(diff.isPreview ? [{ tag: "Preview" }] : []),
+                  ...diff.flags.map((flag) => ({ tag: { value: flag, color: Color.Yellow } })),
+                ]}
+                actions={
+                  <ActionPanel>
+                    <Action
+                      icon={selected.has(diff.id) ? Icon.Circle : Icon.CheckCircle}
+                      title={selected.has(diff.id) ? "Deselect" : "Select"}
+                      onAction={() => toggle(diff.id)}
+                    />
+                    {diff.left ? (
+                      <Action
+                        icon={Icon.ArrowRight}
+                        title={`Copy to ${right.name}`}
+                        shortcut={{ modifiers: ["cmd"], key: "]" }}
+                        onAction={() => copyTo("right", diff)}
+                      />
+                    ) : null}
+                    {diff.right ? (
+                      <Action
+                        icon={Icon.ArrowLeft}
+                        title={`Copy to ${left.name}`}
+                        shortcut={{ modifiers: ["cmd"], key: "[" }}
+                        onAction={() => copyTo("left", diff)}
+                      />
+                    ) : null}
+                    <Action
+                      icon={Icon.BulletPoints}
+                      title="Select All Differences"
+                      shortcut={{ modifiers: ["cmd", "shift"], key: "a" }}
+                      onAction={() => setSelected(new Set(differences.map((item) => item.id)))}
+                    />
+                    <Action
+                      icon={Icon.XMarkCircle}
+                      title="Clear Selection"
+                      shortcut={{ modifiers: ["cmd", "shift"], key: "x" }}
+                      onAction={() => setSelected(new Set())}
+                    />
+                    <Action
+                      icon={showValues ? Icon.EyeDisabled : Icon.Eye}
+                      title={showValues ? "Hide Values" : "Show Values"}
+                      shortcut={{ modifiers: ["cmd", "shift"], key: "v" }}
+                      onAction={async () => {
+                        if (!showValues && !(await confirmSecretAccess("All Values", "Reveal", { always: true }))) {
+                          return;
+                        }
+                        setShowValues((current) => !current);
+                      }}
+                    />
+                    <Action
+                      icon={Icon.ArrowClockwise}
+                      title="Refresh"
+                      shortcut={{ modifiers: ["cmd"], key: "r" }}
+                      onAction={revalidate}
+                    />
+                  </ActionPanel>
+                }
+              />
+            ))}
+          </List.Section>
+        );
+      })}
+    </List>
+  );
+}
@@ -2,41 +2,44 @@ import {
   Action,
   ActionPanel,
   Alert,
+  Clipboard,
+  Color,
   Form,
   Icon,
   List,
   Toast,
   confirmAlert,
+  showInFinder,
   showToast,
   useNavigation,
 } from "@raycast/api";
-import { FormValidation, useCachedPromise, useForm } from "@raycast/utils";
-import { useState } from "react";
-import { requestJson } from "../api/client";
-
-export type EnvironmentVariable = {
-  uuid?: string;
-  is_build_time?: boolean;
-  is_literal?: boolean;
-  is_multiline?: boolean;
-  is_preview?: boolean;
-  is_really_required?: boolean;
-  is_required?: boolean;
-  is_shared?: boolean;
-  is_shown_once?: boolean;
-  key?: string;
-  order?: number | null;
-  real_value?: string;
-  value?: string | null;
-  version?: string;
-  created_at?: string;
-  updated_at?: string;
-};
+import { FormValidation, useCachedPromise, useForm, usePromise } from "@raycast/utils";
+import { existsSync } from "fs";
+import { readFile, writeFile } from "fs/promises";
+import { homedir } from "os";
+import { join } from "path";
+import { useRef, useState } from "react";
+import { EnvVarResourceType, createCoolifyClient } from "../api/coolify";
+import { EnvironmentVariable, EnvironmentVariablePayload } from "../api/types";
+import { getErrorMessage } from "../api/errors";
+import { formatDotenv, parseDotenv } from "../lib/dotenv";
+import { envValue, toEnvPayload } from "../lib/env-diff";
+import { MASKED_VALUE, confirmSecretAccess, isLikelySecret, maskValue } from "../lib/secrets";
+import {
+  describeEnvVarsError,
+  findSharedReferences,
+  isSharedScope,
+  loadSharedVariables,
+  sharedReference,
+} from "../lib/shared-variables";
+import { EnvVarResourcePicker } from "./environment-variables-compare";
 
 export type EnvVarResource = {
-  type: "application" | "service";
+  type: EnvVarResourceType;
   uuid: string;
   name: string;
+  projectUuid?: string;
+  environmentUuid?: string;
 };
 
 type EnvVarFormValues = {
@@ -53,12 +56,21 @@ type BulkEnvVarValues = {
   payload: string;
 };
 
-function resourceTypeToEndpoint(type: EnvVarResource["type"]) {
-  return type === "application" ? "applications" : "services";
-}
+type ImportEnvValues = {
+  files: string[];
+  contents: string;
+  is_preview: boolean;
+  is_build_time: boolean;
+};
+
+type ExportEnvValues = {
+  directory: string[];
+  fileName: string;
+  includePreview: boolean;
+};
 
-function envVarsPath(resource: EnvVarResource) {
-  return `/${resourceTypeToEndpoint(resource.type)}/${resource.uuid}/envs`;
+function envId(env: EnvironmentVariable) {
+  return env.uuid ?? `${env.key}:${Boolean(env.is_preview)}`;
 }
 
 export default function EnvironmentVariablesList({
@@ -70,106 +82,318 @@ export default function EnvironmentVariablesList({
   token: string;
   resource: EnvVarResource;
 }) {
-  const endpoint = envVarsPath(resource);
+  const client = createCoolifyClient({ baseUrl, token });
+  const shownOnceValues = useRef(new Map<string, string>());
+  const [revealed, setRevealed] = useState<Set<string>>(new Set());
   const {
     isLoading,
-    data: envs = [],
+    data: cachedEnvs = [],
+    error,
     revalidate,
   } = useCachedPromise(
-    async (path: string) => requestJson<EnvironmentVariable[]>(path, { baseUrl, token }),
-    [endpoint],
+    async (type: EnvVarResource["type"], uuid: string) => {
+      const envs = await client.listEnvironmentVariables(type, uuid);
+      return envs.map((env) => {
+        if (!env.is_shown_once) return env;
+        shownOnceValues.current.set(envId(env), envValue(env));
+        return { ...env, value: null, real_value: undefined };
+      });
+    },
+    [resource.type, resource.uuid],
     {
       keepPreviousData: true,
+      onError: async (loadError) => {
+        await showToast({
+          style: Toast.Style.Failure,
+          title: "Failed to load environment variables",
+          message: describeEnvVarsError(resource.type, loadError),
+        });
+      },
     },
   );
+  const envs = cachedEnvs.map((env) =>
+    env.is_shown_once && shownOnceValues.current.has(envId(env))
+      ? { ...env, value: shownOnceValues.current.get(envId(env)) }
+      : env,
+  );
+
+  const hasReferences = envs.some((env) => findSharedReferences(envValue(env)).length > 0);
+  const { data: sharedVariables } = usePromise(
+    async (target: EnvVarResource) => loadSharedVariables(client, target),
+    [resource],
+    { execute: hasReferences && !isSharedScope(resource.type) },
+  );
+
+  const scopes = [
+    { title: "Production", isPreview: false },
+    ...(resource.type === "application" || envs.some((env) => env.is_preview)
+      ? [{ title: "Preview", isPreview: true }]
+      : []),
+  ];
+  const findInScope = (isPreview: boolean, key?: string) =>
+    envs.find((env) => env.key === key && Boolean(env.is_preview) === isPreview);
+  const hasKey = (isPreview: boolean, key?: string) => Boolean(findInScope(isPreview, key));
+
+  const cloneToOtherScope = async (env: EnvironmentVariable) => {
+    const isPreview = !env.is_preview;
+    const scopeTitle = isPreview ? "Preview" : "Production";
+    const existing = findInScope(isPreview, env.key);
+    if (existing) {
+      const overwrite = await confirmAlert({
+        title: `Overwrite ${env.key} in ${scopeTitle}?`,
+        message: `${env.key} already exists in ${scopeTitle}.`,
+        primaryAction: { title: "Overwrite", style: Alert.ActionStyle.Destructive },
+      });
+      if (!overwrite) return;
+    }
+
+    try {
+      const body = { ...toEnvPayload(env), is_preview: isPreview };
+      if (existing) {
+        await client.updateEnvironmentVariable(resource.type, resource.uuid, body);
+      } else {
+        await client.createEnvironmentVariable(resource.type, resource.uuid, body);
+      }
+      await showToast({ style: Toast.Style.Success, title: `Cloned ${env.key} to ${scopeTitle}` });
+      await revalidate();
+    } catch (error) {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Failed to clone variable",
+        message: getErrorMessage(error),
+      });
+    }
+  };
+
+  const toggleReveal = async (env: EnvironmentVariable) => {
+    const id = envId(env);
+    if (!revealed.has(id) && !(await confirmSecretAccess(env.key, "Reveal"))) return;
+    setRevealed((current) => {
+      const next = new Set(current);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const copyValue = async (env: EnvironmentVariable) => {
+    if (!(await confirmSecretAccess(env.key, "Copy", { always: !revealed.has(envId(env)) }))) return;
+    await Clipboard.copy(envValue(env), { concealed: true });
+    await showToast({ style: Toast.Style.Success, title: `Copied ${env.key ?? "value"}` });
+  };
 
   return (
     <List isLoading={isLoading} searchBarPlaceholder="Search environment variable" isShowingDetail>
-      <List.Section title={`${resource.name} / Environment Variables`} subtitle={`${envs.length} envs`}>
-        {envs.map((env) => (
-          <List.Item
-            key={env.uuid ?? env.key}
-            title={env.key ?? "Unnamed Variable"}
-            detail={
-              <List.Item.Detail
-                markdown={env.value ?? env.real_value ?? ""}
-                metadata={
-                  <List.Item.Detail.Metadata>
-                    <List.Item.Detail.Metadata.Label
-                      title="Build Variable"
-                      icon={env.is_build_time ? Icon.Check : Icon.Xmark}
-                    />
-                    <List.Item.Detail.Metadata.Label title="Literal" icon={env.is_literal ? Icon.Check : Icon.Xmark} />
-                    <List.Item.Detail.Metadata.Label
-                      title="Multiline"
-                      icon={env.is_multiline ? Icon.Check : Icon.Xmark}
+      {scopes.map((scope) => {
+        const scopeEnvs = envs.filter((env) => Boolean(env.is_preview) === scope.isPreview);
+        const otherScope = scopes.find((item) => item.isPreview !== scope.isPreview);
+        return (
+          <List.Section
+            key={scope.title}
+            title={`${resource.name} / ${scope.title}`}
+            subtitle={`${scopeEnvs.length} envs`}
+          >
+            {scopeEnvs.map((env) => {
+              const missingInOther = otherScope ? !hasKey(otherScope.isPreview, env.key) : false;
+              const references = findSharedReferences(envValue(env));
+              return (
+                <List.Item
+                  key={env.uuid ?? env.key}
+                  title={env.key ?? "Unnamed Variable"}
+                  icon={
+                    missingInOther
+                      ? {
+                          value: { source: Icon.Warning, tintColor: Color.Orange },
+                          tooltip: `Missing in ${otherScope?.title}`,
+                        }
+                      : isLikelySecret(env.key)
+                        ? Icon.Key
+                        : undefined
+                  }
+                  detail={
+                    <List.Item.Detail
+                      markdown={
+                        revealed.has(envId(env))
+                          ? `\`\`\`\n${envValue(env)}\n\`\`\``
+                          : `\`${MASKED_VALUE}\`\n\nPress ⌘⇧R to reveal.`
+                      }
+                      metadata={
+                        <List.Item.Detail.Metadata>
+                          {references.map((reference) => {
+                            const shared = sharedVariables?.resolved.get(reference.reference);
+                            const failure = sharedVariables?.failures[reference.scope];
+                            return (
+                              <List.Item.Detail.Metadata.Label
+                                key={reference.reference}
+                                title={reference.reference}
+                                icon={shared ? Icon.Link : { source: Icon.Warning, tintColor: Color.Orange }}
+                                text={
+                                  !shared
+                                    ? failure
+                                      ? `Unavailable: ${failure}`
+                                      : sharedVariables
+                                        ? "Not found"
+                                        : "Resolving..."
+                                    : revealed.has(envId(env))
+                                      ? envValue(shared)
+                                      : `${reference.scope} / ${reference.key}`
+                                }
+                              />
+                            );
+                          })}
+                          {references.length > 0 ? <List.Item.Detail.Metadata.Separator /> : null}
+                          {otherScope ? (
+                            <List.Item.Detail.Metadata.Label
+                              title={`In ${otherScope.title}`}
+                              icon={missingInOther ? { source: Icon.Warning, tintColor: Color.Orange } : Icon.Check}
+                              text={missingInOther ? "Missing" : undefined}
+                            />
+                          ) : null}
+                          <List.Item.Detail.Metadata.Label
+                            title="Shown Once"
+                            icon={env.is_shown_once ? Icon.Check : Icon.Xmark}
+                          />
+                          <List.Item.Detail.Metadata.Label
+                            title="Build Variable"
+                            icon={env.is_build_time ? Icon.Check : Icon.Xmark}
+                          />
+                          <List.Item.Detail.Metadata.Label
+                            title="Literal"
+                            icon={env.is_literal ? Icon.Check : Icon.Xmark}
+                          />
+                          <List.Item.Detail.Metadata.Label
+                            title="Multiline"
+                            icon={env.is_multiline ? Icon.Check : Icon.Xmark}
+                          />
+                        </List.Item.Detail.Metadata>
+                      }
                     />
-                  </List.Item.Detail.Metadata>
-                }
-              />
-            }
-            actions={
-              <ActionPanel>
-                <Action.Push
-                  icon={Icon.Plus}
-                  title="Create Variable"
-                  target={<EnvVarForm baseUrl={baseUrl} token={token} resource={resource} onSaved={revalidate} />}
-                />
-                <Action.Push
-                  icon={Icon.Pencil}
-                  title="Edit Variable"
-                  target={
-                    <EnvVarForm baseUrl={baseUrl} token={token} resource={resource} env={env} onSaved={revalidate} />
+                  }
+                  actions={
+                    <ActionPanel>
+                      <Action
+                        icon={revealed.has(envId(env)) ? Icon.EyeDisabled : Icon.Eye}
+                        title={revealed.has(envId(env)) ? "Hide Value" : "Reveal Value"}
+                        shortcut={{ modifiers: ["cmd", "shift"], key: "r" }}
+                        onAction={() => toggleReveal(env)}
+                      />
+                      <Action
+                        icon={Icon.Clipboard}
+                        title="Copy Value"
+                        shortcut={{ modifiers: ["cmd"], key: "." }}
+                        onAction={() => copyValue(env)}
+                      />
+                      {isSharedScope(resource.type) && env.key ? (
+                        <Action.CopyToClipboard
+                          title="Copy Reference"
+                          content={sharedReference(resource.type, env.key)}
+                        />
+                      ) : null}
+                      <Action.Push
+                        icon={Icon.Plus}
+                        title="Create Variable"
+                        target={
+                          <EnvVarForm
+                            baseUrl={baseUrl}
+                            token={token}
+                            resource={resource}
+                            isPreview={scope.isPreview}
+                            onSaved={revalidate}
+                          />
+                        }
+                      />
+                      {otherScope ? (
+                        <Action
+                          icon={Icon.CopyClipboard}
+                          title={`Clone to ${otherScope.title}`}
+                          shortcut={{ modifiers: ["cmd", "shift"], key: "p" }}
+                          onAction={() => cloneToOtherScope(env)}
+                        />
+                      ) : null}
+                      <Action.Push
+                        icon={Icon.Pencil}
+                        title="Edit Variable"
+                        target={
+                          <EnvVarForm
+                            baseUrl={baseUrl}
+                            token={token}
+                            resource={resource}
+                            env={env}
+                            onSaved={revalidate}
+                          />
+                        }
+                      />
+                      <Action.Push
+                        icon={Icon.Tray}
+                        title="Bulk Update (JSON)"
+                        target={
+                          <BulkEnvVarForm baseUrl={baseUrl} token={token} resource={resource} onSaved={revalidate} />
+                        }
+                      />
+                      <Action.Push
+                        icon={Icon.Switch}
+                        title="Compare with Another Resource"
+                        shortcut={{ modifiers: ["cmd", "shift"], key: "d" }}
+                        target={<EnvVarResourcePicker baseUrl={baseUrl} token={token} source={resource} />}
+                      />
+                      <DotenvActions
+                        baseUrl={baseUrl}
+                        token={token}
+                        resource={resource}
+                        envs={envs}
+                        onSaved={revalidate}
+                      />
+                      <Action
+                        icon={Icon.Trash}
+                        title="Delete Variable"
+                        style={Action.Style.Destructive}
+                        onAction={async () => {
+                          if (!env.uuid) return;
+                          await confirmAlert({
+                            title: "Delete Environment Variable?",
+                            message: `Delete ${env.key ?? "this variable"}?`,
+                            primaryAction: {
+                              title: "Delete",
+                              style: Alert.ActionStyle.Destructive,
+                              async onAction() {
+                                try {
+                                  await client.deleteEnvironmentVariable(
+                                    resource.type,
+                                    resource.uuid,
+                                    env.uuid as string,
+                                  );
+                                  await showToast({ style: Toast.Style.Success, title: "Variable deleted" });
+                                  await revalidate();
+                                } catch (error) {
+                                  await showToast({
+                                    style: Toast.Style.Failure,
+                                    title: "Failed to delete variable",
+                                    message: getErrorMessage(error),
+                                  });
+                                }
+                              },
+                            },
+                          });
+                        }}
+                      />
+                    </ActionPanel>
                   }
                 />
-                <Action.Push
-                  icon={Icon.Tray}
-                  title="Bulk Update (JSON)"
-                  target={<BulkEnvVarForm baseUrl={baseUrl} token={token} resource={resource} onSaved={revalidate} />}
-                />
-                <Action
-                  icon={Icon.Trash}
-                  title="Delete Variable"
-                  style={Action.Style.Destructive}
-                  onAction={async () => {
-                    if (!env.uuid) return;
-                    await confirmAlert({
-                      title: "Delete Environment Variable?",
-                      message: `Delete ${env.key ?? "this variable"}?`,
-                      primaryAction: {
-                        title: "Delete",
-                        style: Alert.ActionStyle.Destructive,
-                        async onAction() {
-                          try {
-                            await requestJson(`${envVarsPath(resource)}/${env.uuid}`, {
-                              baseUrl,
-                              token,
-                              method: "DELETE",
-                            });
-                            await showToast({ style: Toast.Style.Success, title: "Variable deleted" });
-                            await revalidate();
-                          } catch (error) {
-                            await showToast({
-                              style: Toast.Style.Failure,
-                              title: "Failed to delete variable",
-                              message: error instanceof Error ? error.message : String(error),
-                            });
-                          }
-                        },
-                      },
-                    });
-                  }}
-                />
-              </ActionPanel>
-            }
-          />
-        ))}
-      </List.Section>
+              );
+            })}
+          </List.Section>
+        );
+      })}
       {!isLoading && envs.length === 0 ? (
         <List.EmptyView
-          icon={Icon.MagnifyingGlass}
-          title="No environment variables found"
-          description="Check API token and permissions."
+          icon={error ? { source: Icon.Warning, tintColor: Color.Red } : Icon.MagnifyingGlass}
+          title={error ? "Failed to load environment variables" : "No environment variables found"}
+          description={error ? describeEnvVarsError(resource.type, error) : "Check API token and permissions."}
+          actions={
+            <ActionPanel>
+              <DotenvActions baseUrl={baseUrl} token={token} resource={resource} envs={envs} onSaved={revalidate} />
+            </ActionPanel>
+          }
         />
       ) : null}
     </List>
@@ -181,36 +405,42 @@ function EnvVarForm({
   token,
   resource,
   env,
+  isPreview = false,
   onSaved,
 }: {
   baseUrl: string;
   token: string;
   resource: EnvVarResource;
   env?: EnvironmentVariable;
+  isPreview?: boolean;
   onSaved: () => void;
 }) {
   const { pop } = useNavigation();
   const [isSubmitting, setIsSubmitting] = useState(false);
   const isEdit = Boolean(env?.key);
+  // Coolify hands out shown-once values a single time; once this view has lost it, saving "" would blank the secret.
+  const isValueUnknown = isEdit && Boolean(env?.is_shown_once) && env?.value == null && env?.real_value == null;
+  const [showValue, setShowValue] = useState(false);
 
   const { itemProps, handleSubmit, values } = useForm<EnvVarFormValues>({
     onSubmit: async () => {
       setIsSubmitting(true);
       try {
-        await requestJson(envVarsPath(resource), {
-          baseUrl,
-          token,
-          method: isEdit ? "PATCH" : "POST",
-          body: {
-            key: values.key,
-            value: values.value,
-            is_preview: values.is_preview,
-            is_build_time: values.is_build_time,
-            is_literal: values.is_literal,
-            is_multiline: values.is_multiline,
-            is_shown_once: values.is_shown_once,
-          },
-        });
+        const client = createCoolifyClient({ baseUrl, token });
+        const body = {
+          key: values.key,
+          value: values.value,
+          is_preview: values.is_preview,
+          is_build_time: values.is_build_time,
+          is_literal: values.is_literal,
+          is_multiline: values.is_multiline,
+          is_shown_once: values.is_shown_once,
+        };
+        if (isEdit) {
+          await client.updateEnvironmentVariable(resource.type, resource.uuid, body);
+        } else {
+          await client.createEnvironmentVariable(resource.type, resource.uuid, body);
+        }
         await showToast({ style: Toast.Style.Success, title: isEdit ? "Variable updated" : "Variable created" });
         onSaved();
         pop();
@@ -218,7 +448,7 @@ function EnvVarForm({
         await showToast({
           style: Toast.Style.Failure,
           title: "Failed to save variable",
-          message: error instanceof Error ? error.message : String(error),
+          message: getErrorMessage(error),
         });
       } finally {
         setIsSubmitting(false);
@@ -226,8 +456,8 @@ function EnvVarForm({
     },
     initialValues: {
       key: env?.key ?? "",
-      value: env?.value ?? env?.real_value ?? "",
-      is_preview: env?.is_preview ?? false,
+      value: envValue(env),
+      is_preview: env?.is_preview ?? isPreview,
       is_build_time: env?.is_build_time ?? false,
       is_literal: env?.is_literal ?? false,
       is_multiline: env?.is_multiline ?? false,
@@ -235,6 +465,7 @@ function EnvVarForm({
     },
     validation: {
       key: FormValidation.Required,
+      value: (value) => (isValueUnknown && !value ? "Enter the value again, Coolify no longer returns it" : undefined),
     },
   });
 
@@ -248,12 +479,28 @@ function EnvVarForm({
             title={isEdit ? "Update Variable" : "Create Variable"}
             onSubmit={handleSubmit}
           />
+          <Action
+            icon={showValue ? Icon.EyeDisabled : Icon.Eye}
+            title={showValue ? "Hide Value" : "Reveal Value"}
+            shortcut={{ modifiers: ["cmd", "shift"], key: "r" }}
+            onAction={async () => {
+              if (!showValue && !(await confirmSecretAccess(values.key, "Reveal"))) return;
+              setShowValue((current) => !current);
+            }}
+          />
         </ActionPanel>
       }
     >
       <Form.Description text={isEdit ? "Update Environment Variable" : "Create Environment Variable"} />
       <Form.TextField title="Key" placeholder="DATABASE_URL" {...itemProps.key} />
-      <Form.TextField title="Value" placeholder="value" {...itemProps.value} />
+      {showValue ? (
+        <Form.TextField title="Value" placeholder="value" {...itemProps.value} />
+      ) : (
+        <Form.PasswordField title="Value" info="Press ⌘⇧R to reveal." {...itemProps.value} />
+      )}
+      {isValueUnknown ? (
+        <Form.Description text="This variable is shown once and its value is no longer available. Enter it again to save." />
+      ) : null}
       <Form.Checkbox label="Preview" {...itemProps.is_preview} />
       <Form.Checkbox label="Build Time" {...itemProps.is_build_time} />
       <Form.Checkbox label="Literal" {...itemProps.is_literal} />
@@ -282,12 +529,11 @@ function BulkEnvVarForm({
       setIsSubmitting(true);
       try {
         const parsed = JSON.parse(values.payload || "[]");
-        await requestJson(`${envVarsPath(resource)}/bulk`, {
-          baseUrl,
-          token,
-          method: "PATCH",
-          body: { data: parsed },
-        });
+        await createCoolifyClient({ baseUrl, token }).updateEnvironmentVariablesBulk(
+          resource.type,
+          resource.uuid,
+          parsed,
+        );
         await showToast({ style: Toast.Style.Success, title: "Variables updated" });
         onSaved();
         pop();
@@ -295,7 +541,7 @@ function BulkEnvVarForm({
         await showToast({
           style: Toast.Style.Failure,
           title: "Failed to update variables",
-          message: error instanceof Error ? error.message : String(error),
+          message: getErrorMessage(error),
         });
       } finally {
         setIsSubmitting(false);
@@ -320,3 +566,306 @@ function BulkEnvVarForm({
     </Form>
   );
 }
+
+function slugify(name: string) {
+  return (
+    name
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-|-$/g, "") || "coolify"
+  );
+}
+
+function DotenvActions({
+  baseUrl,
+  token,
+  resource,
+  envs,
+  onSaved,
+}: {
+  baseUrl: string;
+  token: string;
+  resource: EnvVarResource;
+  envs: EnvironmentVariable[];
+  onSaved: () => void;
+}) {
+  return (
+    <ActionPanel.Section title=".env">
+      <Action.Push
+        icon={Icon.Download}
+        title="Import Env File"
+        shortcut={{ modifiers: ["cmd", "shift"], key: "i" }}
+        target={<ImportEnvForm baseUrl={baseUrl} token={token} resource={resource} existing={envs} onSaved={onSaved} />}
+      />
+      {envs.length > 0 ? (
+        <>
+          <Action.Push
+            icon={Icon.Upload}
+            title="Export Env File"
+            shortcut={{ modifiers: ["cmd", "shift"], key: "e" }}
+            target={<ExportEnvForm resource={resource} envs={envs} />}
+          />
+          <Action
+            icon={Icon.CopyClipboard}
+            title="Copy as Env File"
+            shortcut={{ modifiers: ["cmd", "shift"], key: "c" }}
+            onAction={async () => {
+              const confirmed = await confirmAlert({
+                title: `Copy ${envs.length} Variables?`,
+                message: "Every value, including secrets, will be placed on the clipboard.",
+                primaryAction: { title: "Copy" },
+              });
+              if (!confirmed) return;
+              await Clipboard.copy(formatDotenv(envs, `${resource.name} (${resource.type})`), { concealed: true });
+              await showToast({ style: Toast.Style.Success, title: `Copied ${envs.length} variables` });
+            }}
+          />
+        </>
+      ) : null}
+    </ActionPanel.Section>
+  );
+}
+
+function ImportEnvForm({
+  baseUrl,
+  token,
+  resource,
+  existing,
+  onSaved,
+}: {
+  baseUrl: string;
+  token: string;
+  resource: EnvVarResource;
+  existing: EnvironmentVariable[];
+  onSaved: () => void;
+}) {
+  const { push } = useNavigation();
+
+  const { itemProps, handleSubmit, setValidationError } = useForm<ImportEnvValues>({
+    onSubmit: async (values) => {
+      let text = values.contents;
+      if (values.files.length > 0) {
+        try {
+          text = await readFile(values.files[0], "utf8");
+        } catch (error) {
+          setValidationError("files", getErrorMessage(error));
+          return false;
+        }
+      }
+      if (!text.trim()) {
+        setValidationError("contents", "Choose a file or paste .env contents");
+        return false;
+      }
+
+      const { entries, errors } = parseDotenv(text);
+      if (errors.length > 0) {
+        setValidationError(values.files.length > 0 ? "files" : "contents", errors.join("\n"));
+        return false;
+      }
+      if (entries.length === 0) {
+        setValidationError("contents", "No variables found");
+        return false;
+      }
+
+      push(
+        <ImportEnvPreview
+          baseUrl={baseUrl}
+          token={token}
+          resource={resource}
+          existing={existing}
+          entries={entries.map((entry) => ({
+            ...entry,
+            is_preview: entry.is_preview || values.is_preview,
+            is_build_time: entry.is_build_time || values.is_build_time,
+          }))}
+          onSaved={onSaved}
+        />,
+      );
+    },
+    initialValues: {
+      files: [],
+      contents: "",
+      is_preview: false,
+      is_build_time: false,
+    },
+  });
+
+  return (
+    <Form
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm icon={Icon.Eye} title="Preview Import" onSubmit={handleSubmit} />
+        </ActionPanel>
+      }
+    >
+      <Form.Description text={`Import variables into ${resource.name}. Existing keys are overwritten.`} />
+      <Form.FilePicker title=".env File" allowMultipleSelection={false} {...itemProps.files} />
+      <Form.TextArea
+        title="Or Paste Contents"
+        placeholder={"DATABASE_URL=postgres://...\nexport API_KEY='secret'"}
+        info="Used when no file is selected. Supports quotes, multiline values, comments and export prefixes."
+        enableMarkdown={false}
+        {...itemProps.contents}
+      />
+      <Form.Checkbox label="Import as preview variables" {...itemProps.is_preview} />
+      <Form.Checkbox label="Mark as build time" {...itemProps.is_build_time} />
+    </Form>
+  );
+}
+
+function ImportEnvPreview({
+  baseUrl,
+  token,
+  resource,
+  existing,
+  entries,
+  onSaved,
+}: {
+  baseUrl: string;
+  token: string;
+  resource: EnvVarResource;
+  existing: EnvironmentVariable[];
+  entries: EnvironmentVariablePayload[];
+  onSaved: () => void;
+}) {
+  const { pop } = useNavigation();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const findExisting = (entry: EnvironmentVariablePayload) =>
+    existing.find((env) => env.key === entry.key && Boolean(env.is_preview) === Boolean(entry.is_preview));
+
+  const importEntries = async () => {
+    const confirmed = await confirmAlert({
+      title: `Import ${entries.length} Variables?`,
+      message: `Variables with the same key in ${resource.name} will be overwritten.`,
+      primaryAction: { title: "Import" },
+    });
+    if (!confirmed) return;
+
+    setIsSubmitting(true);
+    try {
+      await createCoolifyClient({ baseUrl, token }).updateEnvironmentVariablesBulk(
+        resource.type,
+        resource.uuid,
+        entries,
+      );
+      await showToast({ style: Toast.Style.Success, title: `Imported ${entries.length} variables` });
+      onSaved();
+      pop();
+      pop();
+    } catch (error) {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Failed to import variables",
+        message: getErrorMessage(error),
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <List isLoading={isSubmitting} navigationTitle="Preview Import">
+      <List.Section title={`Import into ${resource.name}`} subtitle={`${entries.length} variables`}>
+        {entries.map((entry) => {
+          const current = findExisting(entry);
+          const currentValue = current && envValue(current);
+          const status = !current ? "New" : currentValue === entry.value ? "Unchanged" : "Updated";
+          return (
+            <List.Item
+              key={`${entry.key}:${Boolean(entry.is_preview)}`}
+              title={entry.key}
+              subtitle={maskValue(entry.value)}
+              accessories={[
+                ...(entry.is_preview ? [{ tag: "Preview" }] : []),
+                ...(entry.is_build_time ? [{ tag: "Build Time" }] : []),
+                ...(entry.is_multiline ? [{ tag: "Multiline" }] : []),
+                { text: status, icon: status === "New" ? Icon.Plus : status === "Updated" ? Icon.Pencil : Icon.Minus },
+              ]}
+              actions={
+                <ActionPanel>
+                  <Action icon={Icon.Check} title={`Import ${entries.length} Variables`} onAction={importEntries} />
+                  <Action
+                    icon={Icon.Clipboard}
+                    title="Copy Value"
+                    onAction={async () => {
+                      if (!(await confirmSecretAccess(entry.key, "Copy", { always: true }))) return;
+                      await Clipboard.copy(entry.value, { concealed: true });
+                      await showToast({ style: Toast.Style.Success, title: `Copied ${entry.key}` });
+                    }}
+                  />
+                </ActionPanel>
+              }
+            />
+          );
+        })}
+      </List.Section>
+    </List>
+  );
+}
+
+function ExportEnvForm({ resource, envs }: { resource: EnvVarResource; envs: EnvironmentVariable[] }) {
+  const { pop } = useNavigation();
+
+  const { itemProps, handleSubmit } = useForm<ExportEnvValues>({
+    onSubmit: async (values) => {
+      const filePath = join(values.directory[0], values.fileName.trim());
+      if (existsSync(filePath)) {
+        const overwrite = await confirmAlert({
+          title: "Overwrite File?",
+          message: `${filePath} already exists.`,
+          primaryAction: { title: "Overwrite", style: Alert.ActionStyle.Destructive },
+        });
+        if (!overwrite) return;
+      }
+
+      const exported = values.includePreview ? envs : envs.filter((env) => !env.is_preview);
+      try {
+        await writeFile(filePath, formatDotenv(exported, `${resource.name} (${resource.type})`), { mode: 0o600 });
+        await showToast({
+          style: Toast.Style.Success,
+          title: `Exported ${exported.length} variables`,
+          message: filePath,
+          primaryAction: { title: "Show in Finder", onAction: () => showInFinder(filePath) },
+        });
+        pop();
+      } catch (error) {
+        await showToast({
+          style: Toast.Style.Failure,
+          title: "Failed to export variables",
+          message: getErrorMessage(error),
+        });
+      }
+    },
+    initialValues: {
+      directory: [join(homedir(), "Downloads")],
+      fileName: `${slugify(resource.name)}.env`,
+      includePreview: true,
+    },
+    validation: {
+      directory: FormValidation.Required,
+      fileName: FormValidation.Required,
+    },
+  });
+
+  return (
+    <Form
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm icon={Icon.Upload} title="Export" onSubmit={handleSubmit} />
+        </ActionPanel>
+      }
+    >
+      <Form.Description text="Build time, preview and other flags are written as `# coolify:` comments." />
+      <Form.FilePicker
+        title="Folder"
+        allowMultipleSelection={false}
+        canChooseDirectories
+        canChooseFiles={false}
+        {...itemProps.directory}
+      />
+      <Form.TextField title="File Name" {...itemProps.fileName} />
+      <Form.Checkbox label="Include preview variables" {...itemProps.includePreview} />
+    </Form>
+  );
+}
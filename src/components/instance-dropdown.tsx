@@ -0,0 +1,52 @@
+import { Icon, List } from "@raycast/api";
+import { useInstance } from "../lib/instance-context";
+
+const INSTANCE_VALUE_PREFIX = "instance:";
+
+export function InstanceDropdownSection() {
+  const { profile: activeProfile, profiles } = useInstance();
+  if (profiles.length < 2) return null;
+
+  return (
+    <List.Dropdown.Section title="Instances">
+      {profiles.map((profile) => (
+        <List.Dropdown.Item
+          key={`instance-${profile.id}`}
+          icon={profile.id === activeProfile.id ? Icon.CheckCircle : Icon.Circle}
+          title={profile.name}
+          value={`${INSTANCE_VALUE_PREFIX}${profile.id}`}
+        />
+      ))}
+    </List.Dropdown.Section>
+  );
+}
+
+export function InstanceDropdown() {
+  const { profile: activeProfile, profiles, switchInstance } = useInstance();
+  if (profiles.length < 2) return null;
+
+  return (
+    <List.Dropdown
+      tooltip="Instance"
+      value={activeProfile.id}
+      onChange={(value) => {
+        if (value !== activeProfile.id) void switchInstance(value);
+      }}
+    >
+      {profiles.map((profile) => (
+        <List.Dropdown.Item key={`instance-${profile.id}`} title={profile.name} value={profile.id} />
+      ))}
+    </List.Dropdown>
+  );
+}
+
+export function useInstanceFilterChange(onFilterChange: (value: string) => void) {
+  const { switchInstance } = useInstance();
+  return (value: string) => {
+    if (value.startsWith(INSTANCE_VALUE_PREFIX)) {
+      void switchInstance(value.slice(INSTANCE_VALUE_PREFIX.length));
+      return;
+    }
+    onFilterChange(value);
+  };
+}
@@ -0,0 +1,72 @@
+import { Action, ActionPanel, Form, Icon, Toast, showToast, useNavigation } from "@raycast/api";
+import { FormValidation, useForm } from "@raycast/utils";
+import { useState } from "react";
+import { DEFAULT_BASE_URL } from "../../api/client";
+import { getErrorMessage } from "../../api/errors";
+import { InstanceProfile, saveProfile } from "../../lib/profiles";
+
+type InstanceFormValues = {
+  name: string;
+  apiUrl: string;
+  apiToken: string;
+};
+
+export default function InstanceForm({ profile, onSaved }: { profile?: InstanceProfile; onSaved: () => void }) {
+  const { pop } = useNavigation();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const isEdit = Boolean(profile);
+
+  const { itemProps, handleSubmit, values } = useForm<InstanceFormValues>({
+    onSubmit: async () => {
+      setIsSubmitting(true);
+      try {
+        await saveProfile({ id: profile?.id, ...values });
+        await showToast({ style: Toast.Style.Success, title: isEdit ? "Instance updated" : "Instance added" });
+        onSaved();
+        pop();
+      } catch (error) {
+        await showToast({
+          style: Toast.Style.Failure,
+          title: "Failed to save instance",
+          message: getErrorMessage(error),
+        });
+      } finally {
+        setIsSubmitting(false);
+      }
+    },
+    initialValues: {
+      name: profile?.name ?? "",
+      apiUrl: profile?.apiUrl ?? "",
+      apiToken: profile?.apiToken ?? "",
+    },
+    validation: {
+      name: FormValidation.Required,
+      apiToken: FormValidation.Required,
+    },
+  });
+
+  return (
+    <Form
+      isLoading={isSubmitting}
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm
+            icon={Icon.Check}
+            title={isEdit ? "Update Instance" : "Add Instance"}
+            onSubmit={handleSubmit}
+          />
+        </ActionPanel>
+      }
+    >
+      <Form.Description text={isEdit ? "Update Coolify Instance" : "Add Coolify Instance"} />
+      <Form.TextField title="Name" placeholder="Production" {...itemProps.name} />
+      <Form.TextField
+        title="API Base URL"
+        placeholder={DEFAULT_BASE_URL}
+        info="Leave empty for Coolify Cloud. Use https://<your-instance>/api/v1 for self-hosted."
+        {...itemProps.apiUrl}
+      />
+      <Form.PasswordField title="API Token" placeholder="Paste your API token" {...itemProps.apiToken} />
+    </Form>
+  );
+}
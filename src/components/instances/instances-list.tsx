@@ -0,0 +1,153 @@
+import {
+  Action,
+  ActionPanel,
+  Alert,
+  Color,
+  Icon,
+  Keyboard,
+  List,
+  Toast,
+  confirmAlert,
+  openExtensionPreferences,
+  showToast,
+  useNavigation,
+} from "@raycast/api";
+import { usePromise } from "@raycast/utils";
+import { getErrorMessage } from "../../api/errors";
+import {
+  PREFERENCES_PROFILE_ID,
+  deleteProfile,
+  getActiveProfileId,
+  loadProfiles,
+  setActiveProfileId,
+  toConnection,
+} from "../../lib/profiles";
+import isValidToken from "../../utils/is-valid-token";
+import InstanceForm from "./instance-form";
+
+export default function InstancesList({ onSwitched }: { onSwitched?: () => void }) {
+  const { pop } = useNavigation();
+  const { data, isLoading, revalidate } = usePromise(async () => {
+    const [profiles, activeId] = await Promise.all([loadProfiles(), getActiveProfileId()]);
+    return { profiles, activeId };
+  });
+  const profiles = data?.profiles ?? [];
+  const activeId = data?.activeId ?? PREFERENCES_PROFILE_ID;
+
+  const addAction = (
+    <Action.Push
+      icon={Icon.Plus}
+      title="Add Instance"
+      target={<InstanceForm onSaved={revalidate} />}
+      shortcut={Keyboard.Shortcut.Common.New}
+    />
+  );
+
+  return (
+    <List isLoading={isLoading} searchBarPlaceholder="Search instances...">
+      <List.Section title="Instances" subtitle={`${profiles.length} instances`}>
+        {profiles.map((profile) => {
+          const connection = toConnection(profile);
+          const isActive = profile.id === activeId;
+          const isPreferences = profile.id === PREFERENCES_PROFILE_ID;
+          const accessories: List.Item.Accessory[] = [
+            isActive ? { tag: { value: "Active", color: Color.Green } } : null,
+            isPreferences ? { text: "Extension Preferences" } : null,
+            !connection.token
+              ? { icon: { source: Icon.Warning, tintColor: Color.Yellow }, tooltip: "Missing token" }
+              : null,
+          ].filter(Boolean) as List.Item.Accessory[];
+
+          return (
+            <List.Item
+              key={profile.id}
+              icon={isActive ? { source: Icon.CheckCircle, tintColor: Color.Green } : Icon.Circle}
+              title={profile.name || "Unnamed Instance"}
+              subtitle={connection.instanceUrl}
+              accessories={accessories}
+              actions={
+                <ActionPanel>
+                  {!isActive ? (
+                    <Action
+                      icon={Icon.Switch}
+                      title="Switch to Instance"
+                      onAction={async () => {
+                        await setActiveProfileId(profile.id);
+                        await showToast({ style: Toast.Style.Success, title: `Switched to ${profile.name}` });
+                        await revalidate();
+                        if (onSwitched) {
+                          onSwitched();
+                          pop();
+                        }
+                      }}
+                    />
+                  ) : null}
+                  <Action
+                    icon={Icon.Check}
+                    title="Test Connection"
+                    onAction={async () => {
+                      const toast = await showToast(Toast.Style.Animated, "Testing connection...");
+                      try {
+                        await isValidToken(connection);
+                        toast.style = Toast.Style.Success;
+                        toast.title = "Connected";
+                        toast.message = connection.instanceUrl;
+                      } catch (error) {
+                        toast.style = Toast.Style.Failure;
+                        toast.title = "Connection failed";
+                        toast.message = getErrorMessage(error);
+                      }
+                    }}
+                  />
+                  {isPreferences ? (
+                    <Action icon={Icon.Gear} title="Open Extension Preferences" onAction={openExtensionPreferences} />
+                  ) : (
+                    <Action.Push
+                      icon={Icon.Pencil}
+                      title="Edit Instance"
+                      target={<InstanceForm profile={profile} onSaved={revalidate} />}
+                    />
+                  )}
+                  {addAction}
+                  {!isPreferences ? (
+                    <Action
+                      icon={Icon.Trash}
+                      title="Delete Instance"
+                      style={Action.Style.Destructive}
+                      shortcut={Keyboard.Shortcut.Common.Remove}
+                      onAction={async () => {
+                        await confirmAlert({
+                          title: "Delete Instance?",
+                          message: `Remove ${profile.name} and its stored token from Raycast?`,
+                          primaryAction: {
+                            title: "Delete",
+                            style: Alert.ActionStyle.Destructive,
+                            async onAction() {
+                              await deleteProfile(profile.id);
+                              await showToast({ style: Toast.Style.Success, title: "Instance deleted" });
+                              await revalidate();
+                            },
+                          },
+                        });
+                      }}
+                    />
+                  ) : null}
+                  <ActionPanel.Section>
+                    <Action.CopyToClipboard title="Copy Base URL" content={connection.baseUrl} />
+                  </ActionPanel.Section>
+                </ActionPanel>
+              }
+            />
+          );
+        })}
+      </List.Section>
+      {!isLoading && profiles.length === 0 ? (
+        <List.EmptyView
+          icon={Icon.MagnifyingGlass}
+          title="No instances found"
+          actions={<ActionPanel>{addAction}</ActionPanel>}
+        />
+      ) : null}
+    </List>
+  );
+}
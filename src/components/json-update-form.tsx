@@ -1,56 +1,173 @@
-import { Action, ActionPanel, Form, Icon, Toast, showToast, useNavigation } from "@raycast/api";
-import { useForm } from "@raycast/utils";
+import { Action, ActionPanel, Detail, Form, Icon, Toast, showToast, useNavigation } from "@raycast/api";
+import { useForm, usePromise } from "@raycast/utils";
 import { useState } from "react";
 import { requestJson } from "../api/client";
+import { getErrorMessage } from "../api/errors";
+import { MASKED_VALUE, isLikelySecret } from "../lib/secrets";
+import {
+  FieldChange,
+  UPDATABLE_FIELDS,
+  UpdatableResourceType,
+  diffFields,
+  omitSecretFields,
+  pickUpdatableFields,
+  validateUpdatableFields,
+} from "../lib/updatable-fields";
+
+function formatValue(key: string, value: unknown) {
+  if (value === undefined || value === null || value === "") return "_empty_";
+  if (isLikelySecret(key)) return `\`${MASKED_VALUE}\``;
+  const text = typeof value === "string" ? value : JSON.stringify(value);
+  const lines = text.split("\n");
+  if (lines.length > 1) return `${lines.length} lines`;
+  const short = text.length > 60 ? `${text.slice(0, 57)}...` : text;
+  return `\`${short.replace(/\|/g, "\\|").replace(/`/g, "'")}\``;
+}
+
+function UpdateReview({
+  title,
+  changes,
+  onConfirm,
+}: {
+  title: string;
+  changes: FieldChange[];
+  onConfirm: () => Promise<void>;
+}) {
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const rows = changes.map(
+    (change) =>
+      `| ${change.key} | ${formatValue(change.key, change.before)} | ${formatValue(change.key, change.after)} |`,
+  );
+  const markdown = `# Review ${title} Changes\n\n| Field | Current | New |\n| --- | --- | --- |\n${rows.join("\n")}`;
+
+  return (
+    <Detail
+      isLoading={isSubmitting}
+      markdown={markdown}
+      actions={
+        <ActionPanel>
+          <Action
+            icon={Icon.Check}
+            title={`Update ${title}`}
+            onAction={async () => {
+              setIsSubmitting(true);
+              try {
+                await onConfirm();
+              } finally {
+                setIsSubmitting(false);
+              }
+            }}
+          />
+        </ActionPanel>
+      }
+    />
+  );
+}
 
 export default function JsonUpdateForm({
   baseUrl,
   token,
   path,
   title,
+  resourceType,
 }: {
   baseUrl: string;
   token: string;
   path: string;
   title: string;
+  resourceType: UpdatableResourceType;
 }) {
-  const { pop } = useNavigation();
-  const [isSubmitting, setIsSubmitting] = useState(false);
+  const { pop, push } = useNavigation();
 
-  const { itemProps, handleSubmit } = useForm({
+  const { itemProps, handleSubmit, setValue, setValidationError } = useForm<{ payload: string }>({
     onSubmit: async (values) => {
-      setIsSubmitting(true);
+      let body: Record<string, unknown>;
       try {
-        const body = JSON.parse(values.payload || "{}");
-        await requestJson(path, { baseUrl, token, method: "PATCH", body });
-        await showToast({ style: Toast.Style.Success, title: "Updated" });
-        pop();
+        body = JSON.parse(values.payload || "{}");
       } catch (error) {
-        await showToast({
-          style: Toast.Style.Failure,
-          title: "Update failed",
-          message: error instanceof Error ? error.message : String(error),
-        });
-      } finally {
-        setIsSubmitting(false);
+        setValidationError("payload", getErrorMessage(error));
+        return false;
       }
+      const errors = validateUpdatableFields(resourceType, body);
+      if (errors.length > 0) {
+        setValidationError("payload", errors.join(" "));
+        return false;
+      }
+
+      const changes = diffFields(current ?? {}, body);
+      if (changes.length === 0) {
+        await showToast({ style: Toast.Style.Failure, title: "No changes to update" });
+        return false;
+      }
+
+      const patch = Object.fromEntries(changes.map((change) => [change.key, change.after]));
+      push(
+        <UpdateReview
+          title={title}
+          changes={changes}
+          onConfirm={async () => {
+            try {
+              await requestJson(path, { baseUrl, token, method: "PATCH", body: patch });
+              await showToast({ style: Toast.Style.Success, title: "Updated" });
+              pop();
+              pop();
+            } catch (error) {
+              await showToast({
+                style: Toast.Style.Failure,
+                title: "Update failed",
+                message: getErrorMessage(error),
+              });
+            }
+          }}
+        />,
+      );
     },
     initialValues: {
       payload: "{}",
     },
   });
 
+  const { data: current, isLoading } = usePromise(
+    async (currentPath: string) =>
+      pickUpdatableFields(resourceType, await requestJson<unknown>(currentPath, { baseUrl, token })),
+    [path],
+    {
+      onData: (fields) => setValue("payload", JSON.stringify(omitSecretFields(fields), null, 2)),
+      onError: async (error) => {
+        await showToast({
+          style: Toast.Style.Failure,
+          title: `Failed to load ${title.toLowerCase()}`,
+          message: getErrorMessage(error),
+        });
+      },
+    },
+  );
+
+  const secretKeys = Object.keys(current ?? {}).filter(isLikelySecret);
+
   return (
     <Form
-      isLoading={isSubmitting}
+      isLoading={isLoading}
       actions={
         <ActionPanel>
-          <Action.SubmitForm icon={Icon.Check} title={`Update ${title}`} onSubmit={handleSubmit} />
+          <Action.SubmitForm icon={Icon.Eye} title="Review Changes" onSubmit={handleSubmit} />
         </ActionPanel>
       }
     >
-      <Form.Description text={`Update ${title} with a JSON payload.`} />
-      <Form.TextArea title="Payload (JSON)" {...itemProps.payload} />
+      <Form.Description
+        text={`Edit the updatable fields of this ${title.toLowerCase()}. Read-only fields are not shown and cannot be changed.`}
+      />
+      <Form.TextArea title="Payload (JSON)" enableMarkdown={false} {...itemProps.payload} />
+      <Form.Description title="Updatable Fields" text={Object.keys(UPDATABLE_FIELDS[resourceType]).join(", ")} />
+      {secretKeys.length > 0 ? (
+        <Form.Description
+          title="Secrets"
+          text={`${secretKeys.join(", ")} are not prefilled. Add them to the payload to change them.`}
+        />
+      ) : null}
+      {resourceType === "service" ? (
+        <Form.Description title="Compose File" text="Use Edit Docker Compose to change the service's compose file." />
+      ) : null}
     </Form>
   );
 }
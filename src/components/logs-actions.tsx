@@ -1,6 +1,7 @@
 import { Action, ActionPanel, Clipboard, Detail, Icon, Toast, showToast } from "@raycast/api";
 import { useCachedPromise } from "@raycast/utils";
-import { requestJson } from "../api/client";
+import { createCoolifyClient } from "../api/coolify";
+import { getErrorMessage } from "../api/errors";
 
 function isHttpUrl(url?: string) {
   if (!url) return false;
@@ -39,10 +40,7 @@ async function fetchApplicationLogs({
   applicationUuid: string;
   lines: number;
 }) {
-  const response = await requestJson<{ logs?: string } | string>(
-    `/applications/${applicationUuid}/logs?lines=${lines}`,
-    { baseUrl, token },
-  );
+  const response = await createCoolifyClient({ baseUrl, token }).getApplicationLogs(applicationUuid, lines);
   if (typeof response === "string") return response;
   if (response && typeof response === "object" && "logs" in response) return response.logs ?? "";
   return "";
@@ -79,7 +77,7 @@ export function LogsSubmenu({
             await showToast({
               style: Toast.Style.Failure,
               title: "Failed to fetch logs",
-              message: error instanceof Error ? error.message : String(error),
+              message: getErrorMessage(error),
             });
           }
         }}
@@ -0,0 +1,96 @@
+import { Form } from "@raycast/api";
+import { usePromise } from "@raycast/utils";
+import { CoolifyClient } from "../api/coolify";
+
+export type PlacementValues = {
+  projectUuid: string;
+  environmentUuid: string;
+  serverUuid: string;
+  destinationUuid: string;
+};
+
+export function buildPlacementPayload(values: PlacementValues) {
+  return {
+    project_uuid: values.projectUuid,
+    environment_uuid: values.environmentUuid,
+    server_uuid: values.serverUuid,
+    ...(values.destinationUuid ? { destination_uuid: values.destinationUuid } : {}),
+  };
+}
+
+export function usePlacementOptions(
+  client: CoolifyClient,
+  values: Pick<PlacementValues, "projectUuid" | "serverUuid">,
+) {
+  const projects = usePromise(() => client.listProjects());
+  const servers = usePromise(() => client.listServers());
+  const environments = usePromise(
+    async (projectUuid: string) => (projectUuid ? client.listProjectEnvironments(projectUuid) : []),
+    [values.projectUuid],
+  );
+  const destinations = usePromise(
+    async (serverUuid: string) => (serverUuid ? ((await client.getServer(serverUuid)).destinations ?? []) : []),
+    [values.serverUuid],
+  );
+
+  return {
+    projects: projects.data ?? [],
+    servers: servers.data ?? [],
+    environments: environments.data ?? [],
+    destinations: destinations.data ?? [],
+    isLoading: projects.isLoading || servers.isLoading || environments.isLoading || destinations.isLoading,
+  };
+}
+
+export function PlacementFields({
+  options,
+  itemProps,
+}: {
+  options: ReturnType<typeof usePlacementOptions>;
+  itemProps: {
+    [K in keyof PlacementValues]: Form.ItemProps<string>;
+  };
+}) {
+  return (
+    <>
+      <Form.Dropdown title="Project" {...itemProps.projectUuid}>
+        {options.projects.map((project) => (
+          <Form.Dropdown.Item
+            key={String(project.uuid)}
+            title={project.name ?? "Unnamed Project"}
+            value={String(project.uuid)}
+          />
+        ))}
+      </Form.Dropdown>
+      <Form.Dropdown title="Environment" {...itemProps.environmentUuid}>
+        {options.environments.map((environment) => (
+          <Form.Dropdown.Item
+            key={String(environment.uuid)}
+            title={environment.name ?? "Unnamed Environment"}
+            value={String(environment.uuid)}
+          />
+        ))}
+      </Form.Dropdown>
+      <Form.Dropdown title="Server" {...itemProps.serverUuid}>
+        {options.servers.map((server) => (
+          <Form.Dropdown.Item
+            key={String(server.uuid)}
+            title={server.name ?? server.ip ?? "Server"}
+            value={String(server.uuid)}
+          />
+        ))}
+      </Form.Dropdown>
+      {options.destinations.length > 1 ? (
+        <Form.Dropdown title="Destination" {...itemProps.destinationUuid}>
+          {options.destinations.map((destination) => (
+            <Form.Dropdown.Item
+              key={String(destination.uuid)}
+              title={destination.name ?? destination.network ?? "Destination"}
+              value={String(destination.uuid)}
+            />
+          ))}
+        </Form.Dropdown>
+      ) : null}
+    </>
+  );
+}
@@ -1,7 +1,8 @@
-import { Action, ActionPanel, Form, Icon, useNavigation } from "@raycast/api";
+import { Action, ActionPanel, Form, Icon, Toast, showToast, useNavigation } from "@raycast/api";
 import { FormValidation, useForm } from "@raycast/utils";
 import { useState } from "react";
-import { requestJson } from "../../api/client";
+import { createCoolifyClient } from "../../api/coolify";
+import { getErrorMessage } from "../../api/errors";
 
 type CreateProjectValues = {
   name?: string;
@@ -24,9 +25,15 @@ export default function CreateProjectForm({
     onSubmit: async () => {
       setIsSubmitting(true);
       try {
-        await requestJson("/projects", { baseUrl, token, method: "POST", body: values });
+        await createCoolifyClient({ baseUrl, token }).createProject(values);
         onAdded();
         pop();
+      } catch (error) {
+        await showToast({
+          style: Toast.Style.Failure,
+          title: "Failed to create project",
+          message: getErrorMessage(error),
+        });
       } finally {
         setIsSubmitting(false);
       }
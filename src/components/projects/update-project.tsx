@@ -1,7 +1,8 @@
-import { Action, ActionPanel, Form, Icon, useNavigation } from "@raycast/api";
+import { Action, ActionPanel, Form, Icon, Toast, showToast, useNavigation } from "@raycast/api";
 import { FormValidation, useForm } from "@raycast/utils";
 import { useState } from "react";
-import { requestJson } from "../../api/client";
+import { createCoolifyClient } from "../../api/coolify";
+import { getErrorMessage } from "../../api/errors";
 
 type Project = {
   uuid?: string;
@@ -32,9 +33,15 @@ export default function UpdateProjectForm({
     onSubmit: async () => {
       setIsSubmitting(true);
       try {
-        await requestJson(`/projects/${project.uuid}`, { baseUrl, token, method: "PATCH", body: values });
+        await createCoolifyClient({ baseUrl, token }).updateProject(String(project.uuid), values);
         onUpdated();
         pop();
+      } catch (error) {
+        await showToast({
+          style: Toast.Style.Failure,
+          title: "Failed to update project",
+          message: getErrorMessage(error),
+        });
       } finally {
         setIsSubmitting(false);
       }
@@ -1,20 +1,7 @@
 import { Action, ActionPanel, Icon, Toast, showToast } from "@raycast/api";
-import { requestJson } from "../api/client";
-
-async function deployByUuid({
-  baseUrl,
-  token,
-  uuid,
-  force,
-}: {
-  baseUrl: string;
-  token: string;
-  uuid: string;
-  force?: boolean;
-}) {
-  const params = force ? "?force=true" : "";
-  await requestJson(`/deploy?uuid=${uuid}${params}`, { baseUrl, token });
-}
+import { createCoolifyClient } from "../api/coolify";
+import { getErrorMessage } from "../api/errors";
+import { trackDeployments } from "../lib/tracked-deployments";
 
 export function RedeploySubmenu({
   baseUrl,
@@ -27,19 +14,21 @@ export function RedeploySubmenu({
   uuid: string;
   title?: string;
 }) {
+  const client = createCoolifyClient({ baseUrl, token });
+
   return (
     <ActionPanel.Submenu title={title} icon={Icon.ArrowClockwise}>
       <Action
         title="Redeploy"
         onAction={async () => {
           try {
-            await deployByUuid({ baseUrl, token, uuid });
+            await trackDeployments({ baseUrl, token }, await client.deploy(uuid));
             await showToast({ style: Toast.Style.Success, title: "Redeploy triggered" });
           } catch (error) {
             await showToast({
               style: Toast.Style.Failure,
               title: "Failed to redeploy",
-              message: error instanceof Error ? error.message : String(error),
+              message: getErrorMessage(error),
             });
           }
         }}
@@ -49,13 +38,13 @@ export function RedeploySubmenu({
         style={Action.Style.Destructive}
         onAction={async () => {
           try {
-            await deployByUuid({ baseUrl, token, uuid, force: true });
+            await trackDeployments({ baseUrl, token }, await client.deploy(uuid, { force: true }));
             await showToast({ style: Toast.Style.Success, title: "Force redeploy triggered" });
           } catch (error) {
             await showToast({
               style: Toast.Style.Failure,
               title: "Failed to force redeploy",
-              message: error instanceof Error ? error.message : String(error),
+              message: getErrorMessage(error),
             });
           }
         }}
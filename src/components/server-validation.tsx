@@ -0,0 +1,173 @@
+import { Action, ActionPanel, Color, Detail, Icon, Toast, showToast } from "@raycast/api";
+import { useEffect, useState } from "react";
+import { createCoolifyClient } from "../api/coolify";
+import { getErrorMessage } from "../api/errors";
+import { Server } from "../api/types";
+import { recordReachability } from "../lib/server-health";
+import { ValidationStepStatus, describeValidation, isValidationComplete } from "../lib/server-validation";
+import { formatDuration } from "../utils/time";
+
+const POLL_INTERVAL_MS = 3000;
+const MAX_POLLS = 40;
+
+const STEP_ICONS: Record<ValidationStepStatus, string> = {
+  pending: "⏳",
+  passed: "✅",
+  failed: "❌",
+  skipped: "➖",
+};
+
+export default function ServerValidationDetail({
+  baseUrl,
+  token,
+  server,
+}: {
+  baseUrl: string;
+  token: string;
+  server: Server;
+}) {
+  const uuid = String(server.uuid);
+  const [run, setRun] = useState(0);
+  const [snapshots, setSnapshots] = useState<Server[]>([]);
+  const [startedAt, setStartedAt] = useState(Date.now());
+  const [finishedAt, setFinishedAt] = useState<number>();
+  const [timedOut, setTimedOut] = useState(false);
+  const [requestError, setRequestError] = useState<string>();
+
+  useEffect(() => {
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const client = createCoolifyClient({ baseUrl, token });
+    const history: Server[] = [];
+
+    const finish = async (latest: Server, completed: boolean) => {
+      setTimedOut(!completed);
+      setFinishedAt(Date.now());
+      if (!completed) {
+        await showToast({
+          style: Toast.Style.Failure,
+          title: "Validation result unknown",
+          message: "Coolify did not report that validation finished",
+        });
+        return;
+      }
+      await recordReachability(uuid, latest);
+      const result = describeValidation(latest, true);
+      await showToast(
+        result.passed
+          ? { style: Toast.Style.Success, title: `${server.name ?? "Server"} is valid` }
+          : { style: Toast.Style.Failure, title: "Server validation failed", message: result.error },
+      );
+    };
+
+    const poll = async (baseline: Server) => {
+      try {
+        const next = await client.getServer(uuid);
+        if (cancelled) return;
+        history.push(next);
+        setSnapshots([...history]);
+        const completed = isValidationComplete(baseline, next);
+        if (completed || history.length >= MAX_POLLS) {
+          await finish(next, completed);
+          return;
+        }
+      } catch (error) {
+        if (cancelled) return;
+        setRequestError(getErrorMessage(error));
+        setFinishedAt(Date.now());
+        return;
+      }
+      if (!cancelled) timer = setTimeout(() => poll(baseline), POLL_INTERVAL_MS);
+    };
+
+    const start = async () => {
+      setSnapshots([]);
+      setStartedAt(Date.now());
+      setFinishedAt(undefined);
+      setTimedOut(false);
+      setRequestError(undefined);
+      let baseline: Server;
+      try {
+        baseline = await client.getServer(uuid);
+        await client.validateServer(uuid);
+      } catch (error) {
+        if (cancelled) return;
+        setRequestError(getErrorMessage(error));
+        setFinishedAt(Date.now());
+        await showToast({
+          style: Toast.Style.Failure,
+          title: "Failed to validate",
+          message: getErrorMessage(error),
+        });
+        return;
+      }
+      if (!cancelled) timer = setTimeout(() => poll(baseline), POLL_INTERVAL_MS);
+    };
+
+    start();
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [baseUrl, token, uuid, run]);
+
+  const isRunning = finishedAt === undefined;
+  const result = describeValidation(snapshots[snapshots.length - 1], !isRunning && !timedOut);
+  const error = requestError ?? result.error;
+  const passed = result.completed && !requestError && result.passed;
+  const outcome = isRunning ? "Validating" : timedOut ? "Unconfirmed" : passed ? "Passed" : "Failed";
+
+  const markdown = [
+    `# ${server.name ?? "Server"} Validation`,
+    [
+      "| Step | Result |",
+      "| --- | --- |",
+      ...result.steps.map(
+        (step) =>
+          `| ${step.title} | ${STEP_ICONS[step.status]} ${step.status}${step.inferred ? " _(from Coolify's message)_" : ""} |`,
+      ),
+    ].join("\n"),
+    isRunning
+      ? "_Waiting for Coolify to report the validation result..._"
+      : timedOut
+        ? "**Coolify did not report that validation finished.** Check the server page in Coolify for the result."
+        : passed
+          ? "**Validation passed.**"
+          : "**Validation failed.**",
+    error && !isRunning ? `\`\`\`\n${error}\n\`\`\`` : "",
+  ].join("\n\n");
+
+  return (
+    <Detail
+      isLoading={isRunning}
+      navigationTitle={`${server.name ?? "Server"} / Validate`}
+      markdown={markdown}
+      metadata={
+        <Detail.Metadata>
+          <Detail.Metadata.TagList title="Result">
+            <Detail.Metadata.TagList.Item
+              text={outcome}
+              color={isRunning ? Color.Blue : timedOut ? Color.Orange : passed ? Color.Green : Color.Red}
+            />
+          </Detail.Metadata.TagList>
+          <Detail.Metadata.Label title="Status Checks" text={String(snapshots.length)} />
+          <Detail.Metadata.Label title="Elapsed" text={formatDuration((finishedAt ?? Date.now()) - startedAt)} />
+          {server.ip ? <Detail.Metadata.Label title="IP" text={server.ip} /> : null}
+        </Detail.Metadata>
+      }
+      actions={
+        <ActionPanel>
+          {!isRunning ? (
+            <Action
+              icon={Icon.ArrowClockwise}
+              title="Validate Again"
+              shortcut={{ modifiers: ["cmd"], key: "r" }}
+              onAction={() => setRun((current) => current + 1)}
+            />
+          ) : null}
+          {error && !isRunning ? <Action.CopyToClipboard title="Copy Error" content={error} /> : null}
+        </ActionPanel>
+      }
+    />
+  );
+}
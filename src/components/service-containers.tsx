@@ -0,0 +1,146 @@
+import { Action, ActionPanel, Alert, Color, Icon, List, Toast, confirmAlert, showToast } from "@raycast/api";
+import { useCachedPromise } from "@raycast/utils";
+import { createCoolifyClient } from "../api/coolify";
+import { getErrorMessage } from "../api/errors";
+import { ServiceApplication, ServiceDatabase, getPrimaryUrl, parseResourceStatus } from "../lib/resources";
+import ComposeEditor from "./compose-editor";
+
+type ServiceContainer = (ServiceApplication | ServiceDatabase) & { kind: "application" | "database" };
+
+function statusColor(status?: string) {
+  const { state, health } = parseResourceStatus(status);
+  if (!state) return Color.SecondaryText;
+  if (state === "running") return health === "unhealthy" ? Color.Orange : Color.Green;
+  return state === "exited" ? Color.Red : Color.Orange;
+}
+
+export default function ServiceContainersList({
+  baseUrl,
+  token,
+  serviceUuid,
+  serviceName,
+  serviceUrl,
+}: {
+  baseUrl: string;
+  token: string;
+  serviceUuid: string;
+  serviceName: string;
+  serviceUrl?: string;
+}) {
+  const client = createCoolifyClient({ baseUrl, token });
+  const { data: service, isLoading } = useCachedPromise(
+    async (uuid: string) => client.getService(uuid),
+    [serviceUuid],
+    { keepPreviousData: true },
+  );
+
+  const containers: ServiceContainer[] = [
+    ...(service?.applications ?? []).map((app) => ({ ...app, kind: "application" as const })),
+    ...(service?.databases ?? []).map((database) => ({ ...database, kind: "database" as const })),
+  ];
+
+  const restartService = async () => {
+    const confirmed = await confirmAlert({
+      title: `Restart ${serviceName}?`,
+      message: `All ${containers.length} containers of the service will be restarted.`,
+      primaryAction: { title: "Restart", style: Alert.ActionStyle.Destructive },
+    });
+    if (!confirmed) return;
+    try {
+      await client.restartResource("service", serviceUuid);
+      await showToast({ style: Toast.Style.Success, title: "Restart triggered" });
+    } catch (error) {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Failed to restart",
+        message: getErrorMessage(error),
+      });
+    }
+  };
+
+  const sections = [
+    { title: "Applications", kind: "application" },
+    { title: "Databases", kind: "database" },
+  ];
+
+  return (
+    <List
+      isLoading={isLoading}
+      navigationTitle={`${serviceName} / Containers`}
+      searchBarPlaceholder="Search containers..."
+    >
+      {sections.map((section) => {
+        const items = containers.filter((container) => container.kind === section.kind);
+        return (
+          <List.Section key={section.kind} title={section.title} subtitle={`${items.length}`}>
+            {items.map((container) => {
+              const { label } = parseResourceStatus(container.status);
+              const fqdn = "fqdn" in container ? (container.fqdn ?? undefined) : undefined;
+              const url = fqdn ? getPrimaryUrl({ fqdn }) : undefined;
+              const publicPort = "public_port" in container && container.is_public ? container.public_port : undefined;
+              return (
+                <List.Item
+                  key={String(container.uuid ?? container.name)}
+                  icon={container.kind === "application" ? Icon.AppWindow : Icon.HardDrive}
+                  title={container.human_name || container.name || "Unnamed Container"}
+                  subtitle={container.image ?? undefined}
+                  accessories={[
+                    ...(url
+                      ? [
+                          {
+                            text: url.replace(/^https?:\/\//, ""),
+                            tooltip: fqdn,
+                          },
+                        ]
+                      : []),
+                    ...(publicPort ? [{ text: `:${publicPort}`, tooltip: "Public Port" }] : []),
+                    ...(container.exclude_from_status ? [{ tag: "Excluded from status" }] : []),
+                    { tag: { value: label, color: statusColor(container.status) } },
+                  ]}
+                  actions={
+                    <ActionPanel>
+                      {url ? <Action.OpenInBrowser title="Open URL" url={url} icon={Icon.Link} /> : null}
+                      {serviceUrl ? (
+                        <Action.OpenInBrowser
+                          title="Open Service Logs in Coolify"
+                          url={`${serviceUrl}/logs`}
+                          icon={Icon.Terminal}
+                        />
+                      ) : null}
+                      <Action
+                        icon={{ source: Icon.Redo, tintColor: Color.Orange }}
+                        title="Restart Service"
+                        onAction={restartService}
+                      />
+                      <Action.Push
+                        icon={Icon.Pencil}
+                        title="Edit Service Compose"
+                        target={
+                          <ComposeEditor
+                            baseUrl={baseUrl}
+                            token={token}
+                            resource={{ type: "service", uuid: serviceUuid, name: serviceName }}
+                          />
+                        }
+                      />
+                      <ActionPanel.Section>
+                        {url ? <Action.CopyToClipboard title="Copy URL" content={url} /> : null}
+                        {container.image ? (
+                          <Action.CopyToClipboard title="Copy Image" content={container.image} />
+                        ) : null}
+                        {container.uuid ? <Action.CopyToClipboard title="Copy UUID" content={container.uuid} /> : null}
+                      </ActionPanel.Section>
+                    </ActionPanel>
+                  }
+                />
+              );
+            })}
+          </List.Section>
+        );
+      })}
+      {!isLoading && containers.length === 0 ? (
+        <List.EmptyView icon={Icon.Box} title="No containers found" description="This service has no containers yet." />
+      ) : null}
+    </List>
+  );
+}
@@ -1,30 +1,24 @@
-import { Action, ActionPanel, Detail, Icon, Toast, getPreferenceValues, showToast } from "@raycast/api";
+import { Action, ActionPanel, Detail, Icon, Toast, showToast } from "@raycast/api";
 import { useCachedPromise } from "@raycast/utils";
-import { Preferences, normalizeBaseUrl, requestJson } from "./api/client";
+import { createCoolifyClient } from "./api/coolify";
+import { getErrorMessage } from "./api/errors";
+import { useInstance } from "./lib/instance-context";
 import WithValidToken from "./pages/with-valid-token";
 
-type Health = {
-  status?: string;
-  message?: string;
-};
-
-type Version = {
-  version?: string;
-};
-
 function StatusView() {
-  const { apiUrl, apiToken } = getPreferenceValues<Preferences>();
-  const baseUrl = normalizeBaseUrl(apiUrl ?? "");
-  const token = apiToken?.trim() ?? "";
+  const { baseUrl, profile, token } = useInstance();
+  const client = createCoolifyClient({ baseUrl, token });
 
   const { isLoading: isLoadingHealth, data: health } = useCachedPromise(
-    async () => requestJson<Health>("/health", { baseUrl, token }),
-    [],
+    async (currentProfileId: string, currentBaseUrl: string) =>
+      createCoolifyClient({ baseUrl: currentBaseUrl, token }).getHealth(),
+    [profile.id, baseUrl],
     { keepPreviousData: true },
   );
   const { isLoading: isLoadingVersion, data: version } = useCachedPromise(
-    async () => requestJson<Version>("/version", { baseUrl, token }),
-    [],
+    async (currentProfileId: string, currentBaseUrl: string) =>
+      createCoolifyClient({ baseUrl: currentBaseUrl, token }).getVersion(),
+    [profile.id, baseUrl],
     { keepPreviousData: true },
   );
 
@@ -46,13 +40,13 @@ function StatusView() {
             icon={Icon.Power}
             onAction={async () => {
               try {
-                await requestJson("/enable", { baseUrl, token });
+                await client.enableApi();
                 await showToast({ style: Toast.Style.Success, title: "API enabled" });
               } catch (error) {
                 await showToast({
                   style: Toast.Style.Failure,
                   title: "Failed to enable API",
-                  message: error instanceof Error ? error.message : String(error),
+                  message: getErrorMessage(error),
                 });
               }
             }}
@@ -63,13 +57,13 @@ function StatusView() {
             style={Action.Style.Destructive}
             onAction={async () => {
               try {
-                await requestJson("/disable", { baseUrl, token });
+                await client.disableApi();
                 await showToast({ style: Toast.Style.Success, title: "API disabled" });
               } catch (error) {
                 await showToast({
                   style: Toast.Style.Failure,
                   title: "Failed to disable API",
-                  message: error instanceof Error ? error.message : String(error),
+                  message: getErrorMessage(error),
                 });
               }
             }}
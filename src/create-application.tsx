@@ -1,15 +1,52 @@
-import { Action, ActionPanel, Form, Icon, Toast, getPreferenceValues, showToast } from "@raycast/api";
-import { useForm } from "@raycast/utils";
+import { Action, ActionPanel, Clipboard, Form, Icon, Toast, showToast } from "@raycast/api";
+import { useForm, usePromise } from "@raycast/utils";
 import { useState } from "react";
-import { Preferences, normalizeBaseUrl, requestJson } from "./api/client";
+import { createCoolifyClient } from "./api/coolify";
+import { getErrorMessage } from "./api/errors";
+import {
+  PlacementFields,
+  PlacementValues,
+  buildPlacementPayload,
+  usePlacementOptions,
+} from "./components/placement-fields";
+import { useInstance } from "./lib/instance-context";
+import { BUILD_PACKS } from "./lib/resources";
 import WithValidToken from "./pages/with-valid-token";
+import { encodeBase64 } from "./utils/base64";
 
-type FormValues = {
+type ApplicationType =
+  | "public"
+  | "private-deploy-key"
+  | "private-github-app"
+  | "dockerfile"
+  | "dockerimage"
+  | "dockercompose";
+
+type FormValues = PlacementValues & {
   type: string;
+  name: string;
+  description: string;
+  gitRepository: string;
+  gitBranch: string;
+  buildPack: string;
+  privateKeyUuid: string;
+  githubAppUuid: string;
+  baseDirectory: string;
+  installCommand: string;
+  buildCommand: string;
+  startCommand: string;
+  dockerfile: string;
+  dockerImage: string;
+  dockerTag: string;
+  dockerCompose: string;
+  portsExposes: string;
+  domains: string;
+  instantDeploy: boolean;
+  useRawJson: boolean;
   payload: string;
 };
 
-const APPLICATION_TYPES = [
+const APPLICATION_TYPES: { title: string; value: ApplicationType }[] = [
   { title: "Public Repository", value: "public" },
   { title: "Private Deploy Key", value: "private-deploy-key" },
   { title: "Private GitHub App", value: "private-github-app" },
@@ -18,24 +55,118 @@ const APPLICATION_TYPES = [
   { title: "Docker Compose", value: "dockercompose" },
 ];
 
+const GIT_TYPES = new Set<string>(["public", "private-deploy-key", "private-github-app"]);
+
+function optional(key: string, value: string) {
+  const trimmed = value.trim();
+  return trimmed ? { [key]: trimmed } : {};
+}
+
+function buildApplicationPayload(values: FormValues) {
+  const payload: Record<string, unknown> = {
+    ...buildPlacementPayload(values),
+    ...optional("name", values.name),
+    ...optional("description", values.description),
+    ...optional("domains", values.domains),
+    instant_deploy: values.instantDeploy,
+  };
+  if (values.type !== "dockercompose") Object.assign(payload, optional("ports_exposes", values.portsExposes));
+
+  if (GIT_TYPES.has(values.type)) {
+    Object.assign(payload, {
+      git_repository: values.gitRepository.trim(),
+      git_branch: values.gitBranch.trim(),
+      build_pack: values.buildPack,
+      ...optional("base_directory", values.baseDirectory),
+    });
+    if (values.buildPack === "nixpacks") {
+      Object.assign(payload, {
+        ...optional("install_command", values.installCommand),
+        ...optional("build_command", values.buildCommand),
+        ...optional("start_command", values.startCommand),
+      });
+    }
+  }
+  if (values.type === "private-deploy-key") payload.private_key_uuid = values.privateKeyUuid;
+  if (values.type === "private-github-app") payload.github_app_uuid = values.githubAppUuid.trim();
+  if (values.type === "dockerfile") payload.dockerfile = encodeBase64(values.dockerfile);
+  if (values.type === "dockerimage") {
+    Object.assign(payload, {
+      docker_registry_image_name: values.dockerImage.trim(),
+      ...optional("docker_registry_image_tag", values.dockerTag),
+    });
+  }
+  if (values.type === "dockercompose") payload.docker_compose_raw = encodeBase64(values.dockerCompose);
+  return payload;
+}
+
+function validateApplication(values: FormValues): Partial<Record<keyof FormValues, string>> {
+  const errors: Partial<Record<keyof FormValues, string>> = {};
+  if (!values.projectUuid) errors.projectUuid = "Select a project";
+  if (!values.environmentUuid) errors.environmentUuid = "Select an environment";
+  if (!values.serverUuid) errors.serverUuid = "Select a server";
+  if (GIT_TYPES.has(values.type)) {
+    if (!values.gitRepository.trim()) errors.gitRepository = "The item is required";
+    if (!values.gitBranch.trim()) errors.gitBranch = "The item is required";
+  }
+  if (values.type === "private-deploy-key" && !values.privateKeyUuid) errors.privateKeyUuid = "Select a private key";
+  if (values.type === "private-github-app" && !values.githubAppUuid.trim()) {
+    errors.githubAppUuid = "The item is required";
+  }
+  if (values.type === "dockerfile" && !values.dockerfile.trim()) errors.dockerfile = "The item is required";
+  if (values.type === "dockerimage" && !values.dockerImage.trim()) errors.dockerImage = "The item is required";
+  if (values.type === "dockercompose" && !values.dockerCompose.trim()) errors.dockerCompose = "The item is required";
+  if (values.type !== "dockercompose") {
+    if (!values.portsExposes.trim()) {
+      errors.portsExposes = "The item is required";
+    } else if (!/^\d+(\s*,\s*\d+)*$/.test(values.portsExposes.trim())) {
+      errors.portsExposes = "Use comma-separated port numbers, e.g. 3000,8080";
+    }
+  }
+  return errors;
+}
+
 function CreateApplicationForm() {
-  const { apiUrl, apiToken } = getPreferenceValues<Preferences>();
-  const baseUrl = normalizeBaseUrl(apiUrl ?? "");
-  const token = apiToken?.trim() ?? "";
+  const { baseUrl, token } = useInstance();
+  const client = createCoolifyClient({ baseUrl, token });
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const { data: keys = [] } = usePromise(() => client.listPrivateKeys());
 
-  const { itemProps, handleSubmit, values } = useForm<FormValues>({
+  const { itemProps, handleSubmit, values, setValue, setValidationError } = useForm<FormValues>({
     onSubmit: async () => {
+      let body: unknown;
+      if (values.useRawJson) {
+        try {
+          body = JSON.parse(values.payload || "{}");
+        } catch (error) {
+          setValidationError("payload", getErrorMessage(error));
+          return false;
+        }
+      } else {
+        const errors = Object.entries(validateApplication(values));
+        if (errors.length > 0) {
+          errors.forEach(([field, message]) => setValidationError(field as keyof FormValues, message));
+          return false;
+        }
+        body = buildApplicationPayload(values);
+      }
+
       setIsSubmitting(true);
       try {
-        const body = JSON.parse(values.payload || "{}");
-        await requestJson(`/applications/${values.type}`, { baseUrl, token, method: "POST", body });
-        await showToast({ style: Toast.Style.Success, title: "Application created" });
+        const created = await client.createApplication(values.type, body);
+        await showToast({
+          style: Toast.Style.Success,
+          title: "Application created",
+          message: created?.uuid,
+          primaryAction: created?.uuid
+            ? { title: "Copy UUID", onAction: () => Clipboard.copy(String(created.uuid)) }
+            : undefined,
+        });
       } catch (error) {
         await showToast({
           style: Toast.Style.Failure,
           title: "Failed to create application",
-          message: error instanceof Error ? error.message : String(error),
+          message: getErrorMessage(error),
         });
       } finally {
         setIsSubmitting(false);
@@ -43,26 +174,145 @@ function CreateApplicationForm() {
     },
     initialValues: {
       type: APPLICATION_TYPES[0].value,
+      projectUuid: "",
+      environmentUuid: "",
+      serverUuid: "",
+      destinationUuid: "",
+      name: "",
+      description: "",
+      gitRepository: "",
+      gitBranch: "main",
+      buildPack: BUILD_PACKS[0].value,
+      privateKeyUuid: "",
+      githubAppUuid: "",
+      baseDirectory: "/",
+      installCommand: "",
+      buildCommand: "",
+      startCommand: "",
+      dockerfile: "",
+      dockerImage: "",
+      dockerTag: "latest",
+      dockerCompose: "",
+      portsExposes: "3000",
+      domains: "",
+      instantDeploy: false,
+      useRawJson: false,
       payload: "{}",
     },
   });
 
+  const options = usePlacementOptions(client, values);
+  const isGit = GIT_TYPES.has(values.type);
+
   return (
     <Form
-      isLoading={isSubmitting}
+      isLoading={isSubmitting || options.isLoading}
       actions={
         <ActionPanel>
           <Action.SubmitForm icon={Icon.Check} title="Create Application" onSubmit={handleSubmit} />
         </ActionPanel>
       }
     >
-      <Form.Description text="Create an application using the Coolify API. Paste the JSON payload from the API docs." />
       <Form.Dropdown title="Type" {...itemProps.type}>
         {APPLICATION_TYPES.map((item) => (
           <Form.Dropdown.Item key={item.value} title={item.title} value={item.value} />
         ))}
       </Form.Dropdown>
-      <Form.TextArea title="Payload (JSON)" {...itemProps.payload} />
+      <Form.Checkbox
+        label="Edit raw JSON payload"
+        {...itemProps.useRawJson}
+        onChange={(checked) => {
+          if (checked) setValue("payload", JSON.stringify(buildApplicationPayload(values), null, 2));
+          setValue("useRawJson", checked);
+        }}
+      />
+      {values.useRawJson ? (
+        <Form.TextArea
+          title="Payload (JSON)"
+          info={`Sent as-is to /applications/${values.type}.`}
+          enableMarkdown={false}
+          {...itemProps.payload}
+        />
+      ) : (
+        <>
+          <Form.Separator />
+          <PlacementFields options={options} itemProps={itemProps} />
+          <Form.Separator />
+          <Form.TextField title="Name" placeholder="my-app" {...itemProps.name} />
+          <Form.TextField title="Description" {...itemProps.description} />
+          {isGit ? (
+            <>
+              <Form.TextField
+                title="Git Repository"
+                placeholder={
+                  values.type === "public"
+                    ? "https://github.com/coollabsio/coolify-examples"
+                    : "git@github.com:org/repo.git"
+                }
+                {...itemProps.gitRepository}
+              />
+              <Form.TextField title="Git Branch" placeholder="main" {...itemProps.gitBranch} />
+              {values.type === "private-deploy-key" ? (
+                <Form.Dropdown title="Private Key" {...itemProps.privateKeyUuid}>
+                  {keys.map((key) => (
+                    <Form.Dropdown.Item
+                      key={String(key.id ?? key.uuid)}
+                      title={key.name ?? "Key"}
+                      value={String(key.uuid)}
+                    />
+                  ))}
+                </Form.Dropdown>
+              ) : null}
+              {values.type === "private-github-app" ? (
+                <Form.TextField
+                  title="GitHub App UUID"
+                  info="Find it under Sources in Coolify."
+                  {...itemProps.githubAppUuid}
+                />
+              ) : null}
+              <Form.Dropdown title="Build Pack" {...itemProps.buildPack}>
+                {BUILD_PACKS.filter((item) => item.usesGit).map((item) => (
+                  <Form.Dropdown.Item key={item.value} title={item.title} value={item.value} />
+                ))}
+              </Form.Dropdown>
+              <Form.TextField title="Base Directory" placeholder="/" {...itemProps.baseDirectory} />
+              {values.buildPack === "nixpacks" ? (
+                <>
+                  <Form.TextField title="Install Command" placeholder="npm ci" {...itemProps.installCommand} />
+                  <Form.TextField title="Build Command" placeholder="npm run build" {...itemProps.buildCommand} />
+                  <Form.TextField title="Start Command" placeholder="npm start" {...itemProps.startCommand} />
+                </>
+              ) : null}
+            </>
+          ) : null}
+          {values.type === "dockerfile" ? (
+            <Form.TextArea title="Dockerfile" enableMarkdown={false} {...itemProps.dockerfile} />
+          ) : null}
+          {values.type === "dockerimage" ? (
+            <>
+              <Form.TextField title="Image" placeholder="nginx" {...itemProps.dockerImage} />
+              <Form.TextField title="Tag" placeholder="latest" {...itemProps.dockerTag} />
+            </>
+          ) : null}
+          {values.type === "dockercompose" ? (
+            <Form.TextArea title="Docker Compose" enableMarkdown={false} {...itemProps.dockerCompose} />
+          ) : (
+            <Form.TextField
+              title="Ports Exposed"
+              placeholder="3000"
+              info="Comma-separated list of container ports."
+              {...itemProps.portsExposes}
+            />
+          )}
+          <Form.TextField
+            title="Domains"
+            placeholder="https://app.example.com"
+            info="Comma-separated list of domains. Leave empty to generate one."
+            {...itemProps.domains}
+          />
+          <Form.Checkbox label="Deploy immediately" {...itemProps.instantDeploy} />
+        </>
+      )}
     </Form>
   );
 }
@@ -1,43 +1,215 @@
-import { Action, ActionPanel, Form, Icon, Toast, getPreferenceValues, showToast } from "@raycast/api";
+import { Action, ActionPanel, Form, Icon, Keyboard, LaunchType, Toast, launchCommand, showToast } from "@raycast/api";
 import { useForm } from "@raycast/utils";
 import { useState } from "react";
-import { Preferences, normalizeBaseUrl, requestJson } from "./api/client";
+import { createCoolifyClient } from "./api/coolify";
+import { getErrorMessage } from "./api/errors";
+import {
+  PlacementFields,
+  PlacementValues,
+  buildPlacementPayload,
+  usePlacementOptions,
+} from "./components/placement-fields";
+import { useInstance } from "./lib/instance-context";
 import WithValidToken from "./pages/with-valid-token";
+import { generatePassword } from "./utils/password";
 
-type FormValues = {
-  type: string;
-  payload: string;
+type EngineField = {
+  key: string;
+  title: string;
+  kind: "text" | "password";
+  placeholder?: string;
+  required?: boolean;
 };
 
-const DATABASE_TYPES = [
-  { title: "PostgreSQL", value: "postgresql" },
-  { title: "MySQL", value: "mysql" },
-  { title: "MariaDB", value: "mariadb" },
-  { title: "MongoDB", value: "mongodb" },
-  { title: "Redis", value: "redis" },
-  { title: "KeyDB", value: "keydb" },
-  { title: "DragonFly", value: "dragonfly" },
-  { title: "ClickHouse", value: "clickhouse" },
+type Engine = {
+  title: string;
+  value: string;
+  image: string;
+  fields: EngineField[];
+};
+
+const DATABASE_TYPES: Engine[] = [
+  {
+    title: "PostgreSQL",
+    value: "postgresql",
+    image: "postgres:16-alpine",
+    fields: [
+      { key: "postgres_user", title: "User", kind: "text", placeholder: "postgres", required: true },
+      { key: "postgres_password", title: "Password", kind: "password", required: true },
+      { key: "postgres_db", title: "Database", kind: "text", placeholder: "postgres", required: true },
+    ],
+  },
+  {
+    title: "MySQL",
+    value: "mysql",
+    image: "mysql:8",
+    fields: [
+      { key: "mysql_root_password", title: "Root Password", kind: "password", required: true },
+      { key: "mysql_user", title: "User", kind: "text", placeholder: "mysql", required: true },
+      { key: "mysql_password", title: "Password", kind: "password", required: true },
+      { key: "mysql_database", title: "Database", kind: "text", placeholder: "default", required: true },
+    ],
+  },
+  {
+    title: "MariaDB",
+    value: "mariadb",
+    image: "mariadb:11",
+    fields: [
+      { key: "mariadb_root_password", title: "Root Password", kind: "password", required: true },
+      { key: "mariadb_user", title: "User", kind: "text", placeholder: "mariadb", required: true },
+      { key: "mariadb_password", title: "Password", kind: "password", required: true },
+      { key: "mariadb_database", title: "Database", kind: "text", placeholder: "default", required: true },
+    ],
+  },
+  {
+    title: "MongoDB",
+    value: "mongodb",
+    image: "mongo:7",
+    fields: [
+      { key: "mongo_initdb_root_username", title: "Root User", kind: "text", placeholder: "root", required: true },
+      { key: "mongo_initdb_root_password", title: "Root Password", kind: "password", required: true },
+      { key: "mongo_initdb_database", title: "Database", kind: "text", placeholder: "default" },
+    ],
+  },
+  {
+    title: "Redis",
+    value: "redis",
+    image: "redis:7.2",
+    fields: [{ key: "redis_password", title: "Password", kind: "password", required: true }],
+  },
+  {
+    title: "KeyDB",
+    value: "keydb",
+    image: "eqalpha/keydb:latest",
+    fields: [{ key: "keydb_password", title: "Password", kind: "password", required: true }],
+  },
+  {
+    title: "DragonFly",
+    value: "dragonfly",
+    image: "docker.dragonflydb.io/dragonflydb/dragonfly",
+    fields: [{ key: "dragonfly_password", title: "Password", kind: "password", required: true }],
+  },
+  {
+    title: "ClickHouse",
+    value: "clickhouse",
+    image: "bitnami/clickhouse",
+    fields: [
+      { key: "clickhouse_admin_user", title: "Admin User", kind: "text", placeholder: "default", required: true },
+      { key: "clickhouse_admin_password", title: "Admin Password", kind: "password", required: true },
+    ],
+  },
 ];
 
+const ENGINE_FIELDS = DATABASE_TYPES.flatMap((engine) => engine.fields);
+
+type FormValues = PlacementValues &
+  Record<string, string | boolean> & {
+    type: string;
+    name: string;
+    description: string;
+    image: string;
+    isPublic: boolean;
+    publicPort: string;
+    limitsMemory: string;
+    limitsCpus: string;
+    instantDeploy: boolean;
+  };
+
+function initialEngineValues() {
+  const values: Record<string, string> = {};
+  for (const field of ENGINE_FIELDS) {
+    values[field.key] = field.kind === "password" ? generatePassword() : (field.placeholder ?? "");
+  }
+  return values;
+}
+
+function findEngine(type: string) {
+  return DATABASE_TYPES.find((engine) => engine.value === type) ?? DATABASE_TYPES[0];
+}
+
+function isPort(value: string) {
+  const port = Number(value);
+  return Number.isInteger(port) && port > 0 && port < 65536;
+}
+
+function validateDatabase(values: FormValues, engine: Engine) {
+  const errors: Record<string, string> = {};
+  if (!values.projectUuid) errors.projectUuid = "Select a project";
+  if (!values.environmentUuid) errors.environmentUuid = "Select an environment";
+  if (!values.serverUuid) errors.serverUuid = "Select a server";
+  for (const field of engine.fields) {
+    const value = String(values[field.key] ?? "").trim();
+    if (field.required && !value) {
+      errors[field.key] = "The item is required";
+    } else if (field.kind === "password" && value && value.length < 8) {
+      errors[field.key] = "Use at least 8 characters";
+    }
+  }
+  if (values.isPublic) {
+    if (!values.publicPort.trim()) {
+      errors.publicPort = "A public port is required when the database is public";
+    } else if (!isPort(values.publicPort.trim())) {
+      errors.publicPort = "Enter a port between 1 and 65535";
+    }
+  }
+  if (values.limitsMemory.trim() && !/^\d+(\.\d+)?[bkmg]?$/i.test(values.limitsMemory.trim())) {
+    errors.limitsMemory = "Use a Docker memory value, e.g. 512m or 2g";
+  }
+  if (values.limitsCpus.trim() && !(Number(values.limitsCpus) > 0)) {
+    errors.limitsCpus = "Use a positive number of CPUs, e.g. 0.5";
+  }
+  return errors;
+}
+
+function buildDatabasePayload(values: FormValues, engine: Engine) {
+  const payload: Record<string, unknown> = {
+    ...buildPlacementPayload(values),
+    instant_deploy: values.instantDeploy,
+    is_public: values.isPublic,
+  };
+  if (values.name.trim()) payload.name = values.name.trim();
+  if (values.description.trim()) payload.description = values.description.trim();
+  if (values.image.trim()) payload.image = values.image.trim();
+  if (values.isPublic) payload.public_port = Number(values.publicPort);
+  if (values.limitsMemory.trim()) payload.limits_memory = values.limitsMemory.trim();
+  if (values.limitsCpus.trim()) payload.limits_cpus = values.limitsCpus.trim();
+  for (const field of engine.fields) {
+    const value = String(values[field.key] ?? "").trim();
+    if (value) payload[field.key] = value;
+  }
+  return payload;
+}
+
 function CreateDatabaseForm() {
-  const { apiUrl, apiToken } = getPreferenceValues<Preferences>();
-  const baseUrl = normalizeBaseUrl(apiUrl ?? "");
-  const token = apiToken?.trim() ?? "";
+  const { baseUrl, token } = useInstance();
+  const client = createCoolifyClient({ baseUrl, token });
   const [isSubmitting, setIsSubmitting] = useState(false);
 
-  const { itemProps, handleSubmit, values } = useForm<FormValues>({
+  const { itemProps, handleSubmit, values, setValue, setValidationError } = useForm<FormValues>({
     onSubmit: async () => {
+      const engine = findEngine(values.type);
+      const errors = Object.entries(validateDatabase(values, engine));
+      if (errors.length > 0) {
+        errors.forEach(([field, message]) => setValidationError(field, message));
+        return false;
+      }
+
       setIsSubmitting(true);
       try {
-        const body = JSON.parse(values.payload || "{}");
-        await requestJson(`/databases/${values.type}`, { baseUrl, token, method: "POST", body });
-        await showToast({ style: Toast.Style.Success, title: "Database created" });
+        const created = await client.createDatabase(values.type, buildDatabasePayload(values, engine));
+        await showToast({ style: Toast.Style.Success, title: "Database created", message: created?.uuid });
+        if (created?.uuid) {
+          await launchCommand({
+            name: "search-databases",
+            type: LaunchType.UserInitiated,
+            context: { databaseUuid: created.uuid },
+          });
+        }
       } catch (error) {
         await showToast({
           style: Toast.Style.Failure,
           title: "Failed to create database",
-          message: error instanceof Error ? error.message : String(error),
+          message: getErrorMessage(error),
         });
       } finally {
         setIsSubmitting(false);
@@ -45,26 +217,112 @@ function CreateDatabaseForm() {
     },
     initialValues: {
       type: DATABASE_TYPES[0].value,
-      payload: "{}",
+      projectUuid: "",
+      environmentUuid: "",
+      serverUuid: "",
+      destinationUuid: "",
+      name: "",
+      description: "",
+      image: DATABASE_TYPES[0].image,
+      isPublic: false,
+      publicPort: "",
+      limitsMemory: "",
+      limitsCpus: "",
+      instantDeploy: true,
+      ...initialEngineValues(),
     },
   });
 
+  const options = usePlacementOptions(client, values);
+  const engine = findEngine(values.type);
+
+  const regeneratePasswords = () => {
+    for (const field of engine.fields) {
+      if (field.kind === "password") setValue(field.key, generatePassword());
+    }
+  };
+
   return (
     <Form
-      isLoading={isSubmitting}
+      isLoading={isSubmitting || options.isLoading}
       actions={
         <ActionPanel>
           <Action.SubmitForm icon={Icon.Check} title="Create Database" onSubmit={handleSubmit} />
+          <Action
+            icon={Icon.Key}
+            title="Generate New Passwords"
+            shortcut={{ modifiers: ["cmd"], key: "g" }}
+            onAction={regeneratePasswords}
+          />
+          <Action.CopyToClipboard
+            title="Copy Passwords"
+            shortcut={Keyboard.Shortcut.Common.Copy}
+            content={engine.fields
+              .filter((field) => field.kind === "password")
+              .map((field) => `${field.title}: ${values[field.key]}`)
+              .join("\n")}
+          />
         </ActionPanel>
       }
     >
-      <Form.Description text="Create a database using the Coolify API. Paste the JSON payload from the API docs." />
-      <Form.Dropdown title="Type" {...itemProps.type}>
+      <Form.Dropdown
+        title="Engine"
+        {...itemProps.type}
+        onChange={(type) => {
+          setValue("type", type);
+          setValue("image", findEngine(type).image);
+        }}
+      >
         {DATABASE_TYPES.map((item) => (
           <Form.Dropdown.Item key={item.value} title={item.title} value={item.value} />
         ))}
       </Form.Dropdown>
-      <Form.TextArea title="Payload (JSON)" {...itemProps.payload} />
+      <Form.Separator />
+      <PlacementFields options={options} itemProps={itemProps} />
+      <Form.Separator />
+      <Form.TextField title="Name" placeholder={`${engine.value}-database`} {...itemProps.name} />
+      <Form.TextField title="Description" {...itemProps.description} />
+      <Form.TextField title="Image" placeholder={engine.image} {...itemProps.image} />
+      {engine.fields.map((field) =>
+        field.kind === "password" ? (
+          <Form.PasswordField
+            key={field.key}
+            title={field.title}
+            info="Generated for you. Press ⌘G to generate new passwords."
+            id={field.key}
+            error={itemProps[field.key].error}
+            value={String(values[field.key] ?? "")}
+            onChange={(value) => {
+              setValue(field.key, value);
+              setValidationError(field.key, undefined);
+            }}
+          />
+        ) : (
+          <Form.TextField
+            key={field.key}
+            title={field.title}
+            placeholder={field.placeholder}
+            id={field.key}
+            error={itemProps[field.key].error}
+            value={String(values[field.key] ?? "")}
+            onChange={(value) => {
+              setValue(field.key, value);
+              setValidationError(field.key, undefined);
+            }}
+          />
+        ),
+      )}
+      <Form.Separator />
+      <Form.Checkbox label="Make publicly accessible" {...itemProps.isPublic} />
+      {values.isPublic ? <Form.TextField title="Public Port" placeholder="5432" {...itemProps.publicPort} /> : null}
+      <Form.TextField
+        title="Memory Limit"
+        placeholder="512m"
+        info="Leave empty for no limit."
+        {...itemProps.limitsMemory}
+      />
+      <Form.TextField title="CPU Limit" placeholder="0.5" info="Leave empty for no limit." {...itemProps.limitsCpus} />
+      <Form.Checkbox label="Start immediately" {...itemProps.instantDeploy} />
     </Form>
   );
 }
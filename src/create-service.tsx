@@ -0,0 +1,265 @@
+import {
+  Action,
+  ActionPanel,
+  Color,
+  Form,
+  Icon,
+  LaunchType,
+  List,
+  Toast,
+  launchCommand,
+  showToast,
+  useNavigation,
+} from "@raycast/api";
+import { useForm, usePromise } from "@raycast/utils";
+import { useState } from "react";
+import { createCoolifyClient } from "./api/coolify";
+import { getErrorMessage } from "./api/errors";
+import {
+  PlacementFields,
+  PlacementValues,
+  buildPlacementPayload,
+  usePlacementOptions,
+} from "./components/placement-fields";
+import { useInstance } from "./lib/instance-context";
+import { ServiceTemplate, fetchServiceTemplates, getTemplateLogoUrl } from "./lib/service-templates";
+import WithValidToken from "./pages/with-valid-token";
+import { encodeBase64 } from "./utils/base64";
+
+type FormValues = PlacementValues & {
+  serviceType: string;
+  name: string;
+  description: string;
+  useCustomCompose: boolean;
+  dockerCompose: string;
+  instantDeploy: boolean;
+};
+
+function CreateServiceForm({
+  baseUrl,
+  token,
+  template,
+  manualType = false,
+}: {
+  baseUrl: string;
+  token: string;
+  template?: ServiceTemplate;
+  manualType?: boolean;
+}) {
+  const client = createCoolifyClient({ baseUrl, token });
+  const { pop } = useNavigation();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const { itemProps, handleSubmit, values, setValidationError } = useForm<FormValues>({
+    onSubmit: async () => {
+      const showCompose = !(template || manualType) || values.useCustomCompose;
+      const errors: Partial<Record<keyof FormValues, string>> = {};
+      if (!values.projectUuid) errors.projectUuid = "Select a project";
+      if (!values.environmentUuid) errors.environmentUuid = "Select an environment";
+      if (!values.serverUuid) errors.serverUuid = "Select a server";
+      if (manualType && !values.serviceType.trim()) errors.serviceType = "The item is required";
+      if (showCompose && !values.dockerCompose.trim()) errors.dockerCompose = "The item is required";
+      const entries = Object.entries(errors);
+      if (entries.length > 0) {
+        entries.forEach(([field, message]) => setValidationError(field as keyof FormValues, message));
+        return false;
+      }
+
+      const payload: Record<string, unknown> = {
+        ...buildPlacementPayload(values),
+        instant_deploy: values.instantDeploy,
+      };
+      if (showCompose) payload.docker_compose_raw = encodeBase64(values.dockerCompose);
+      else payload.type = template?.type ?? values.serviceType.trim();
+      if (values.name.trim()) payload.name = values.name.trim();
+      if (values.description.trim()) payload.description = values.description.trim();
+
+      setIsSubmitting(true);
+      try {
+        const created = await client.createService(payload);
+        await showToast({ style: Toast.Style.Success, title: "Service created", message: created?.uuid });
+        pop();
+        if (created?.uuid) {
+          await launchCommand({
+            name: "search-services",
+            type: LaunchType.UserInitiated,
+            context: { serviceUuid: created.uuid },
+          });
+        }
+      } catch (error) {
+        await showToast({
+          style: Toast.Style.Failure,
+          title: "Failed to create service",
+          message: getErrorMessage(error),
+        });
+      } finally {
+        setIsSubmitting(false);
+      }
+    },
+    initialValues: {
+      projectUuid: "",
+      environmentUuid: "",
+      serverUuid: "",
+      destinationUuid: "",
+      serviceType: "",
+      name: "",
+      description: "",
+      useCustomCompose: false,
+      dockerCompose: "",
+      instantDeploy: true,
+    },
+  });
+
+  const options = usePlacementOptions(client, values);
+  const showCompose = !(template || manualType) || values.useCustomCompose;
+
+  return (
+    <Form
+      isLoading={isSubmitting || options.isLoading}
+      navigationTitle={
+        template ? `Create ${template.name}` : manualType ? "Create One-Click Service" : "Create Custom Service"
+      }
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm icon={Icon.Check} title="Create Service" onSubmit={handleSubmit} />
+        </ActionPanel>
+      }
+    >
+      <Form.Description
+        title="Service"
+        text={
+          template ? `${template.name} — ${template.slogan ?? ""}` : manualType ? "One-Click Service" : "Docker Compose"
+        }
+      />
+      {manualType ? (
+        <Form.TextField
+          title="Service Type"
+          placeholder="plausible"
+          info="The one-click service type as listed in Coolify, e.g. plausible or n8n."
+          {...itemProps.serviceType}
+        />
+      ) : null}
+      <PlacementFields options={options} itemProps={itemProps} />
+      <Form.Separator />
+      <Form.TextField title="Name" placeholder={template?.type ?? "my-service"} {...itemProps.name} />
+      <Form.TextField title="Description" {...itemProps.description} />
+      {template || manualType ? (
+        <Form.Checkbox label="Use custom Docker Compose" {...itemProps.useCustomCompose} />
+      ) : null}
+      {showCompose ? (
+        <Form.TextArea
+          title="Docker Compose"
+          placeholder={"services:\n  app:\n    image: nginx"}
+          enableMarkdown={false}
+          {...itemProps.dockerCompose}
+        />
+      ) : null}
+      <Form.Checkbox label="Start immediately" {...itemProps.instantDeploy} />
+    </Form>
+  );
+}
+
+function ServiceTemplatesList() {
+  const { baseUrl, instanceUrl, token } = useInstance();
+  const {
+    data: templates = [],
+    isLoading,
+    error,
+    revalidate,
+  } = usePromise(fetchServiceTemplates, [], {
+    onError: async (loadError) => {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Failed to load service templates",
+        message: getErrorMessage(loadError),
+      });
+    },
+  });
+
+  return (
+    <List isLoading={isLoading} searchBarPlaceholder="Search one-click services...">
+      <List.Section title="Custom">
+        <List.Item
+          icon={Icon.Code}
+          title="Docker Compose"
+          subtitle="Deploy your own docker-compose file"
+          actions={
+            <ActionPanel>
+              <Action.Push
+                icon={Icon.Plus}
+                title="Create Service"
+                target={<CreateServiceForm baseUrl={baseUrl} token={token} />}
+              />
+            </ActionPanel>
+          }
+        />
+        <List.Item
+          icon={Icon.Keyboard}
+          title="Service Type"
+          subtitle="Enter a one-click service type supported by your instance"
+          actions={
+            <ActionPanel>
+              <Action.Push
+                icon={Icon.Plus}
+                title="Create Service"
+                target={<CreateServiceForm baseUrl={baseUrl} token={token} manualType />}
+              />
+            </ActionPanel>
+          }
+        />
+      </List.Section>
+      {error ? (
+        <List.Section title="One-Click Services">
+          <List.Item
+            icon={{ source: Icon.Warning, tintColor: Color.Orange }}
+            title="Templates Unavailable"
+            subtitle={getErrorMessage(error)}
+            actions={
+              <ActionPanel>
+                <Action icon={Icon.ArrowClockwise} title="Retry" onAction={revalidate} />
+                <Action.Push
+                  icon={Icon.Plus}
+                  title="Enter Service Type"
+                  target={<CreateServiceForm baseUrl={baseUrl} token={token} manualType />}
+                />
+              </ActionPanel>
+            }
+          />
+        </List.Section>
+      ) : null}
+      <List.Section title="One-Click Services" subtitle={`${templates.length} · may differ from your instance version`}>
+        {templates.map((template) => (
+          <List.Item
+            key={template.type}
+            icon={getTemplateLogoUrl(instanceUrl, template) ?? Icon.Box}
+            title={template.name}
+            subtitle={template.slogan}
+            keywords={[template.type, ...template.tags]}
+            accessories={template.tags.slice(0, 2).map((tag) => ({ tag }))}
+            actions={
+              <ActionPanel>
+                <Action.Push
+                  icon={Icon.Plus}
+                  title="Create Service"
+                  target={<CreateServiceForm baseUrl={baseUrl} token={token} template={template} />}
+                />
+                {template.documentation ? (
+                  <Action.OpenInBrowser title="Open Documentation" url={template.documentation} />
+                ) : null}
+                <Action.CopyToClipboard title="Copy Service Type" content={template.type} />
+              </ActionPanel>
+            }
+          />
+        ))}
+      </List.Section>
+    </List>
+  );
+}
+
+export default function Command() {
+  return (
+    <WithValidToken>
+      <ServiceTemplatesList />
+    </WithValidToken>
+  );
+}
@@ -0,0 +1,69 @@
+import { isMap, parseDocument } from "yaml";
+
+export function validateCompose(text: string): string | undefined {
+  if (!text.trim()) return "The compose file is empty";
+  const document = parseDocument(text);
+  const [error] = document.errors;
+  if (error) {
+    const line = error.linePos?.[0];
+    return line ? `Line ${line.line}, column ${line.col}: ${error.message.split(" at line")[0]}` : error.message;
+  }
+  const services = isMap(document.contents) ? document.contents.get("services") : undefined;
+  if (!isMap(services) || services.items.length === 0) return "The compose file must define at least one service";
+  return undefined;
+}
+
+export type DiffLine = {
+  kind: "same" | "added" | "removed";
+  text: string;
+};
+
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before.split("\n");
+  const b = after.split("\n");
+  const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      lines.push({ kind: "same", text: a[i++] });
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      lines.push({ kind: "removed", text: a[i++] });
+    } else {
+      lines.push({ kind: "added", text: b[j++] });
+    }
+  }
+  while (i < a.length) lines.push({ kind: "removed", text: a[i++] });
+  while (j < b.length) lines.push({ kind: "added", text: b[j++] });
+  return lines;
+}
+
+export function formatUnifiedDiff(lines: DiffLine[], context = 3) {
+  const changed = lines.map((line, index) => (line.kind === "same" ? -1 : index)).filter((index) => index >= 0);
+  const visible = new Set<number>();
+  for (const index of changed) {
+    for (let offset = -context; offset <= context; offset++) visible.add(index + offset);
+  }
+
+  const output: string[] = [];
+  let skipped = false;
+  lines.forEach((line, index) => {
+    if (!visible.has(index)) {
+      skipped = true;
+      return;
+    }
+    if (skipped) output.push("@@");
+    skipped = false;
+    const prefix = line.kind === "added" ? "+" : line.kind === "removed" ? "-" : " ";
+    output.push(`${prefix} ${line.text}`);
+  });
+  return output.join("\n");
+}
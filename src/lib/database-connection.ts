@@ -0,0 +1,211 @@
+import { ServerResource } from "../api/types";
+import { Database } from "./resources";
+import { MASKED_VALUE } from "./secrets";
+
+type Credentials = {
+  user?: string;
+  password?: string;
+  database?: string;
+};
+
+type Engine = {
+  title: string;
+  scheme: string;
+  port: number;
+  credentials: (database: Database) => Credentials;
+  command: (connection: ConnectionTarget) => string;
+};
+
+export type ConnectionTarget = Credentials & {
+  host: string;
+  port: number;
+  url: string;
+};
+
+export type DatabaseConnection = {
+  engine: string;
+  internal: ConnectionTarget;
+  public?: ConnectionTarget;
+};
+
+function shellQuote(value: string) {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+function redisCommand({ url }: ConnectionTarget) {
+  return `redis-cli -u ${shellQuote(url)}`;
+}
+
+function mysqlCommand({ host, port, user, password, database }: ConnectionTarget) {
+  return [
+    "mysql",
+    `-h ${host}`,
+    `-P ${port}`,
+    user ? `-u ${shellQuote(user)}` : "",
+    password ? `-p${shellQuote(password)}` : "",
+    database ? shellQuote(database) : "",
+  ]
+    .filter(Boolean)
+    .join(" ");
+}
+
+const ENGINES: Record<string, Engine> = {
+  "standalone-postgresql": {
+    title: "PostgreSQL",
+    scheme: "postgres",
+    port: 5432,
+    credentials: (db) => ({ user: db.postgres_user, password: db.postgres_password, database: db.postgres_db }),
+    command: ({ url }) => `psql ${shellQuote(url)}`,
+  },
+  "standalone-mysql": {
+    title: "MySQL",
+    scheme: "mysql",
+    port: 3306,
+    credentials: (db) => ({ user: db.mysql_user, password: db.mysql_password, database: db.mysql_database }),
+    command: mysqlCommand,
+  },
+  "standalone-mariadb": {
+    title: "MariaDB",
+    scheme: "mysql",
+    port: 3306,
+    credentials: (db) => ({ user: db.mariadb_user, password: db.mariadb_password, database: db.mariadb_database }),
+    command: mysqlCommand,
+  },
+  "standalone-mongodb": {
+    title: "MongoDB",
+    scheme: "mongodb",
+    port: 27017,
+    credentials: (db) => ({ user: db.mongo_initdb_root_username, password: db.mongo_initdb_root_password }),
+    command: ({ url }) => `mongosh ${shellQuote(url)}`,
+  },
+  "standalone-redis": {
+    title: "Redis",
+    scheme: "redis",
+    port: 6379,
+    credentials: (db) => ({ user: "default", password: db.redis_password }),
+    command: redisCommand,
+  },
+  "standalone-keydb": {
+    title: "KeyDB",
+    scheme: "redis",
+    port: 6379,
+    credentials: (db) => ({ password: db.keydb_password }),
+    command: redisCommand,
+  },
+  "standalone-dragonfly": {
+    title: "DragonFly",
+    scheme: "redis",
+    port: 6379,
+    credentials: (db) => ({ password: db.dragonfly_password }),
+    command: redisCommand,
+  },
+  "standalone-clickhouse": {
+    title: "ClickHouse",
+    scheme: "clickhouse",
+    port: 9000,
+    credentials: (db) => ({ user: db.clickhouse_admin_user, password: db.clickhouse_admin_password }),
+    command: ({ host, port, user, password }) =>
+      [
+        "clickhouse-client",
+        `--host ${host}`,
+        `--port ${port}`,
+        user ? `--user ${shellQuote(user)}` : "",
+        password ? `--password ${shellQuote(password)}` : "",
+      ]
+        .filter(Boolean)
+        .join(" "),
+  },
+};
+
+export function getEngineTitle(dbType?: string) {
+  return (dbType && ENGINES[dbType]?.title) ?? dbType ?? "Database";
+}
+
+function buildUrl(engine: Engine, host: string, port: number, credentials: Credentials) {
+  const auth =
+    credentials.user || credentials.password
+      ? `${encodeURIComponent(credentials.user ?? "")}${credentials.password ? `:${encodeURIComponent(credentials.password)}` : ""}@`
+      : "";
+  const path = credentials.database ? `/${encodeURIComponent(credentials.database)}` : "";
+  return `${engine.scheme}://${auth}${host}:${port}${path}`;
+}
+
+type Address = {
+  host: string;
+  port: number;
+};
+
+// Coolify does not URL-encode credentials in its URLs, so only the host after the last "@" is read from them.
+function parseAddress(url?: string | null): Address | undefined {
+  if (!url) return undefined;
+  const rest = url.replace(/^[a-z][\w+.-]*:\/\//i, "");
+  const authority = rest.slice(rest.lastIndexOf("@") + 1).split(/[/?#]/)[0];
+  const separator = authority.lastIndexOf(":");
+  const port = Number(authority.slice(separator + 1));
+  if (separator <= 0 || !Number.isInteger(port) || port < 1) return undefined;
+  return { host: authority.slice(0, separator), port };
+}
+
+function toTarget(engine: Engine, { host, port }: Address, credentials: Credentials): ConnectionTarget {
+  return { ...credentials, host, port, url: buildUrl(engine, host, port, credentials) };
+}
+
+export function getDefaultPort(dbType?: string) {
+  return (dbType && ENGINES[dbType]?.port) || undefined;
+}
+
+export function findPortConflicts(
+  database: Database,
+  port: number,
+  serverResources: ServerResource[],
+  databases: Database[],
+) {
+  const onServer = new Set(serverResources.map((resource) => resource.uuid).filter(Boolean));
+  return databases.filter(
+    (other) =>
+      other.uuid !== database.uuid &&
+      other.uuid &&
+      onServer.has(other.uuid) &&
+      other.is_public &&
+      Number(other.public_port) === port,
+  );
+}
+
+export function buildPublicUrl(database: Database, host: string, port: number) {
+  const engine = database.db_type ? ENGINES[database.db_type] : undefined;
+  if (!engine) return undefined;
+  return buildUrl(engine, host, port, engine.credentials(database));
+}
+
+export function buildDatabaseConnection(database: Database): DatabaseConnection | undefined {
+  const engine = database.db_type ? ENGINES[database.db_type] : undefined;
+  if (!engine || !database.uuid) return undefined;
+  const credentials = engine.credentials(database);
+  const serverIp = database.destination?.server?.ip;
+  const internal = parseAddress(database.internal_db_url) ?? { host: database.uuid, port: engine.port };
+  const publicAddress =
+    database.is_public && database.public_port
+      ? serverIp
+        ? { host: serverIp, port: database.public_port }
+        : parseAddress(database.external_db_url)
+      : undefined;
+
+  return {
+    engine: engine.title,
+    internal: toTarget(engine, internal, credentials),
+    public: publicAddress ? toTarget(engine, publicAddress, credentials) : undefined,
+  };
+}
+
+export function buildClientCommand(database: Database, target: ConnectionTarget) {
+  const engine = database.db_type ? ENGINES[database.db_type] : undefined;
+  return engine?.command(target);
+}
+
+export function maskSecret(text: string, ...secrets: (string | undefined)[]) {
+  return secrets.reduce<string>(
+    (masked, secret) =>
+      secret ? masked.split(secret).join(MASKED_VALUE).split(encodeURIComponent(secret)).join(MASKED_VALUE) : masked,
+    text,
+  );
+}
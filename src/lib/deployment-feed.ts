@@ -0,0 +1,190 @@
+import { Cache, Toast, showToast } from "@raycast/api";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { CoolifyClient } from "../api/coolify";
+import { getErrorMessage } from "../api/errors";
+import { Deployment } from "../api/types";
+import { forEachWithConcurrency } from "../utils/concurrency";
+
+const PAGE_SIZE = 10;
+const CONCURRENCY = 4;
+const MAX_CACHED_PER_APP = 50;
+
+type AppCursor = {
+  deployments: Deployment[];
+  exhausted: boolean;
+};
+
+type FeedState = Record<string, AppCursor>;
+
+const cache = new Cache({ namespace: "deployment-feed" });
+
+function readCache(key: string): FeedState {
+  const cached = cache.get(key);
+  if (!cached) return {};
+  try {
+    return JSON.parse(cached) as FeedState;
+  } catch {
+    return {};
+  }
+}
+
+function writeCache(key: string, state: FeedState) {
+  const trimmed: FeedState = {};
+  for (const [uuid, cursor] of Object.entries(state)) {
+    const deployments = cursor.deployments.slice(0, MAX_CACHED_PER_APP);
+    trimmed[uuid] = { deployments, exhausted: cursor.exhausted && deployments.length === cursor.deployments.length };
+  }
+  cache.set(key, JSON.stringify(trimmed));
+}
+
+function deploymentKey(deployment: Deployment) {
+  return String(deployment.deployment_uuid ?? deployment.id ?? "");
+}
+
+function omit<T extends object, K extends keyof T>(value: T, key: K): Omit<T, K> {
+  const copy = { ...value };
+  delete copy[key];
+  return copy;
+}
+
+function toFeedRow(deployment: Deployment, appUuid: string): Deployment {
+  // Build logs can be megabytes; the feed only needs the metadata.
+  return { ...omit(deployment, "logs"), source_app_uuid: appUuid };
+}
+
+const NO_APPS: string[] = [];
+
+export function useDeploymentFeed(client: CoolifyClient, cacheKey: string, appUuidsOrPending?: string[]) {
+  const isPending = appUuidsOrPending === undefined;
+  const appUuids = appUuidsOrPending ?? NO_APPS;
+  const [feed, setFeed] = useState<FeedState>(() => readCache(cacheKey));
+  const [queue, setQueue] = useState<Deployment[]>([]);
+  const [pendingRuns, setPendingRuns] = useState(0);
+  const feedRef = useRef(feed);
+  const refreshedApps = useRef(new Set<string>());
+  const controller = useRef(new AbortController());
+  const appUuidsKey = appUuids.join("|");
+
+  const updateCursor = useCallback(
+    (uuid: string, update: (cursor: AppCursor) => AppCursor) => {
+      setFeed((previous) => {
+        const next = { ...previous, [uuid]: update(previous[uuid] ?? { deployments: [], exhausted: false }) };
+        feedRef.current = next;
+        writeCache(cacheKey, next);
+        return next;
+      });
+    },
+    [cacheKey],
+  );
+
+  const run = useCallback(async (uuids: string[], task: (uuid: string, signal: AbortSignal) => Promise<void>) => {
+    const { signal } = controller.current;
+    setPendingRuns((count) => count + 1);
+    const failures: string[] = [];
+    try {
+      await forEachWithConcurrency(
+        uuids,
+        CONCURRENCY,
+        async (uuid) => {
+          try {
+            await task(uuid, signal);
+          } catch (error) {
+            if (!signal.aborted) failures.push(getErrorMessage(error));
+          }
+        },
+        signal,
+      );
+      if (failures.length > 0) {
+        await showToast({
+          style: Toast.Style.Failure,
+          title: `Failed to load deployments for ${failures.length} application${failures.length === 1 ? "" : "s"}`,
+          message: failures[0],
+        });
+      }
+    } finally {
+      setPendingRuns((count) => count - 1);
+    }
+  }, []);
+
+  const fetchNew = useCallback(
+    async (uuid: string, signal: AbortSignal) => {
+      const { items } = await client.getApplicationDeploymentsPage(uuid, { skip: 0, take: PAGE_SIZE }, signal);
+      const fresh = items.map((item) => toFeedRow(item, uuid));
+      const freshKeys = new Set(fresh.map(deploymentKey));
+      updateCursor(uuid, (cursor) => {
+        const overlaps = cursor.deployments.some((item) => freshKeys.has(deploymentKey(item)));
+        // Without overlap there may be a gap between the first page and the cache, so start over from the page.
+        if (!overlaps) return { deployments: fresh, exhausted: items.length < PAGE_SIZE };
+        return {
+          // Re-fetched rows carry the latest status, so they replace the cached copies.
+          deployments: [...fresh, ...cursor.deployments.filter((item) => !freshKeys.has(deploymentKey(item)))],
+          exhausted: cursor.exhausted || items.length < PAGE_SIZE,
+        };
+      });
+    },
+    [client, updateCursor],
+  );
+
+  const fetchOlder = useCallback(
+    async (uuid: string, signal: AbortSignal) => {
+      const cursor = feedRef.current[uuid];
+      const skip = cursor?.deployments.length ?? 0;
+      const { items } = await client.getApplicationDeploymentsPage(uuid, { skip, take: PAGE_SIZE }, signal);
+      updateCursor(uuid, (current) => {
+        const known = new Set(current.deployments.map(deploymentKey));
+        const older = items.filter((item) => !known.has(deploymentKey(item))).map((item) => toFeedRow(item, uuid));
+        return { deployments: [...current.deployments, ...older], exhausted: items.length < PAGE_SIZE };
+      });
+    },
+    [client, updateCursor],
+  );
+
+  const loadQueue = useCallback(async () => {
+    setPendingRuns((count) => count + 1);
+    try {
+      const rows = await client.listDeployments({ signal: controller.current.signal, maxItems: 200 });
+      setQueue(rows.map((row) => toFeedRow(row, row.application_uuid ?? "")));
+    } catch (error) {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Failed to load deployments",
+        message: getErrorMessage(error),
+      });
+    } finally {
+      setPendingRuns((count) => count - 1);
+    }
+  }, [client]);
+
+  useEffect(() => {
+    if (isPending) return;
+    if (appUuids.length === 0) {
+      loadQueue();
+      return;
+    }
+    const pending = appUuids.filter((uuid) => !refreshedApps.current.has(uuid));
+    if (pending.length === 0) return;
+    pending.forEach((uuid) => refreshedApps.current.add(uuid));
+    run(pending, fetchNew);
+  }, [appUuidsKey, isPending]);
+
+  useEffect(() => () => controller.current.abort(), []);
+
+  const deployments = useMemo(() => {
+    if (appUuids.length === 0) return queue;
+    return appUuids.flatMap((uuid) => feed[uuid]?.deployments ?? []);
+  }, [appUuidsKey, feed, queue]);
+
+  const hasMore = !isPending && appUuids.some((uuid) => !feed[uuid]?.exhausted);
+
+  const refresh = useCallback(async () => {
+    if (appUuids.length === 0) return loadQueue();
+    await run(appUuids, fetchNew);
+  }, [appUuidsKey, fetchNew, loadQueue, run]);
+
+  const loadMore = useCallback(async () => {
+    const remaining = appUuids.filter((uuid) => !feedRef.current[uuid]?.exhausted);
+    await run(remaining, fetchOlder);
+  }, [appUuidsKey, fetchOlder, run]);
+
+  return { deployments, isLoading: pendingRuns > 0, hasMore, refresh, loadMore };
+}
@@ -0,0 +1,95 @@
+export const ACTIVE_STATUSES = new Set(["running", "queued", "pending", "in_progress", "deploying", "building"]);
+
+export function normalizeStatus(status?: string) {
+  return (status ?? "").toLowerCase().replace(/\s+/g, "_").replace(/-+/g, "_");
+}
+
+export function isActiveStatus(status?: string) {
+  return ACTIVE_STATUSES.has(normalizeStatus(status));
+}
+
+function normalizeUrl(url?: string) {
+  if (!url) return undefined;
+  if (url.startsWith("http://") || url.startsWith("https://")) return url;
+  return `https://${url}`;
+}
+
+export function buildCoolifyDeploymentUrl({
+  instanceUrl,
+  projectUuid,
+  environmentUuid,
+  applicationUuid,
+  deploymentUuid,
+}: {
+  instanceUrl: string;
+  projectUuid?: string;
+  environmentUuid?: string;
+  applicationUuid?: string;
+  deploymentUuid?: string;
+}) {
+  if (!projectUuid || !environmentUuid || !applicationUuid || !deploymentUuid) return undefined;
+  const base = instanceUrl.replace(/\/+$/, "");
+  return `${base}/project/${projectUuid}/environment/${environmentUuid}/application/${applicationUuid}/deployment/${deploymentUuid}`;
+}
+
+export function resolveDeployUrl(url: string | undefined, instanceUrl: string) {
+  if (!url) return undefined;
+  if (url.startsWith("http://") || url.startsWith("https://")) return url;
+  const base = instanceUrl.replace(/\/+$/, "");
+  if (url.startsWith("/")) return `${base}${url}`;
+  if (url.startsWith("project/")) return `${base}/${url}`;
+  return normalizeUrl(url);
+}
+
+export type DeploymentLogEntry = {
+  key: string;
+  command?: string;
+  output: string;
+  type: "stdout" | "stderr";
+  timestamp?: string;
+  hidden: boolean;
+};
+
+type RawLogEntry = {
+  command?: string | null;
+  output?: string | null;
+  type?: string;
+  timestamp?: string;
+  hidden?: boolean;
+  batch?: number;
+  order?: number;
+};
+
+export function parseDeploymentLogs(logs: unknown): DeploymentLogEntry[] {
+  let raw: unknown = logs;
+  if (typeof logs === "string") {
+    if (!logs.trim()) return [];
+    try {
+      raw = JSON.parse(logs);
+    } catch {
+      // Older Coolify versions store plain text logs.
+      return logs
+        .split("\n")
+        .map((line, index) => ({ key: String(index), output: line, type: "stdout", hidden: false }));
+    }
+  }
+  if (!Array.isArray(raw)) return [];
+
+  return (raw as RawLogEntry[]).map((entry, index) => ({
+    key: entry.order !== undefined ? `${entry.batch ?? 0}:${entry.order}` : String(index),
+    command: entry.command ?? undefined,
+    output: entry.output ?? "",
+    type: entry.type === "stderr" ? "stderr" : "stdout",
+    timestamp: entry.timestamp,
+    hidden: Boolean(entry.hidden),
+  }));
+}
+
+export function formatLogEntry(entry: DeploymentLogEntry, { showCommands }: { showCommands: boolean }) {
+  const time = entry.timestamp ? new Date(entry.timestamp) : undefined;
+  const prefix = time && !Number.isNaN(time.getTime()) ? `[${time.toLocaleTimeString()}] ` : "";
+  const marker = entry.type === "stderr" ? "ERR " : "";
+  const lines = entry.output.split("\n").map((line) => `${prefix}${marker}${line}`);
+  if (showCommands && entry.command) lines.unshift(`${prefix}$ ${entry.command}`);
+  return lines.join("\n");
+}
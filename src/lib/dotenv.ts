@@ -0,0 +1,130 @@
+import { EnvironmentVariable, EnvironmentVariablePayload } from "../api/types";
+
+type EnvFlag = "is_build_time" | "is_preview" | "is_literal" | "is_multiline" | "is_shown_once";
+
+const FLAG_NAMES: Record<string, EnvFlag> = {
+  "build-time": "is_build_time",
+  preview: "is_preview",
+  literal: "is_literal",
+  multiline: "is_multiline",
+  "shown-once": "is_shown_once",
+};
+
+const FLAG_COMMENT = /^#\s*coolify:\s*(.*)$/i;
+const KEY_PATTERN = /^[A-Za-z_][A-Za-z0-9_.-]*$/;
+const SAFE_VALUE = /^[\w@%+=:,./-]*$/;
+
+export type DotenvParseResult = {
+  entries: EnvironmentVariablePayload[];
+  errors: string[];
+};
+
+function parseFlags(comment: string) {
+  const flags: Partial<Record<EnvFlag, boolean>> = {};
+  for (const name of comment.split(/[\s,]+/)) {
+    const flag = FLAG_NAMES[name.toLowerCase()];
+    if (flag) flags[flag] = true;
+  }
+  return flags;
+}
+
+function unescapeDoubleQuoted(value: string) {
+  return value.replace(/\\([nrt"\\$])/g, (_, char: string) => {
+    if (char === "n") return "\n";
+    if (char === "r") return "\r";
+    if (char === "t") return "\t";
+    return char;
+  });
+}
+
+function findClosingQuote(text: string, quote: string) {
+  for (let index = 1; index < text.length; index++) {
+    if (quote === '"' && text[index] === "\\") {
+      index++;
+    } else if (text[index] === quote) {
+      return index;
+    }
+  }
+  return -1;
+}
+
+export function parseDotenv(text: string): DotenvParseResult {
+  const lines = text.replace(/\r\n?/g, "\n").split("\n");
+  const entries = new Map<string, EnvironmentVariablePayload>();
+  const errors: string[] = [];
+  let pendingFlags: Partial<Record<EnvFlag, boolean>> = {};
+
+  for (let index = 0; index < lines.length; index++) {
+    const lineNumber = index + 1;
+    const line = lines[index].trim();
+    if (!line) {
+      pendingFlags = {};
+      continue;
+    }
+    if (line.startsWith("#")) {
+      const flagComment = FLAG_COMMENT.exec(line);
+      if (flagComment) pendingFlags = parseFlags(flagComment[1]);
+      continue;
+    }
+
+    const assignment = line.replace(/^export\s+/, "");
+    const separator = assignment.indexOf("=");
+    if (separator === -1) {
+      errors.push(`Line ${lineNumber}: expected KEY=value`);
+      continue;
+    }
+    const key = assignment.slice(0, separator).trim();
+    if (!KEY_PATTERN.test(key)) {
+      errors.push(`Line ${lineNumber}: invalid key "${key}"`);
+      continue;
+    }
+
+    let rest = assignment.slice(separator + 1).trimStart();
+    let value: string;
+    const quote = rest[0];
+    if (quote === '"' || quote === "'" || quote === "`") {
+      let closing = findClosingQuote(rest, quote);
+      while (closing === -1 && index + 1 < lines.length) {
+        rest += `\n${lines[++index]}`;
+        closing = findClosingQuote(rest, quote);
+      }
+      if (closing === -1) {
+        errors.push(`Line ${lineNumber}: unterminated ${quote} quote for ${key}`);
+        continue;
+      }
+      const raw = rest.slice(1, closing);
+      value = quote === '"' ? unescapeDoubleQuoted(raw) : raw;
+    } else {
+      value = rest.replace(/\s+#.*$/, "").trim();
+    }
+
+    entries.set(`${key}:${Boolean(pendingFlags.is_preview)}`, {
+      key,
+      value,
+      ...pendingFlags,
+      is_multiline: pendingFlags.is_multiline || value.includes("\n"),
+    });
+    pendingFlags = {};
+  }
+
+  return { entries: [...entries.values()], errors };
+}
+
+function quoteValue(value: string) {
+  if (SAFE_VALUE.test(value)) return value;
+  return `"${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\$/g, "\\$")}"`;
+}
+
+export function formatDotenv(envs: EnvironmentVariable[], title?: string) {
+  const lines: string[] = [];
+  if (title) lines.push(`# ${title}`, "");
+  for (const env of envs) {
+    if (!env.key) continue;
+    const flags = Object.entries(FLAG_NAMES)
+      .filter(([, flag]) => env[flag])
+      .map(([name]) => name);
+    if (flags.length > 0) lines.push(`# coolify: ${flags.join(", ")}`);
+    lines.push(`${env.key}=${quoteValue(env.value ?? env.real_value ?? "")}`);
+  }
+  return `${lines.join("\n")}\n`;
+}
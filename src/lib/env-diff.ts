@@ -0,0 +1,72 @@
+import { EnvironmentVariable, EnvironmentVariablePayload } from "../api/types";
+
+export type EnvDiffStatus = "only-left" | "only-right" | "value" | "flags" | "same";
+
+export type EnvDiff = {
+  id: string;
+  key: string;
+  isPreview: boolean;
+  status: EnvDiffStatus;
+  left?: EnvironmentVariable;
+  right?: EnvironmentVariable;
+  flags: string[];
+};
+
+const COMPARED_FLAGS = ["is_build_time", "is_literal", "is_multiline", "is_shown_once"] as const;
+
+export function envValue(env?: EnvironmentVariable) {
+  return env?.value ?? env?.real_value ?? "";
+}
+
+function envId(env: EnvironmentVariable) {
+  return `${env.key}:${Boolean(env.is_preview)}`;
+}
+
+function indexEnvs(envs: EnvironmentVariable[]) {
+  const index = new Map<string, EnvironmentVariable>();
+  for (const env of envs) {
+    if (env.key) index.set(envId(env), env);
+  }
+  return index;
+}
+
+export function compareEnvVars(leftEnvs: EnvironmentVariable[], rightEnvs: EnvironmentVariable[]): EnvDiff[] {
+  const left = indexEnvs(leftEnvs);
+  const right = indexEnvs(rightEnvs);
+  const ids = [...new Set([...left.keys(), ...right.keys()])];
+
+  return ids
+    .map((id) => {
+      const leftEnv = left.get(id);
+      const rightEnv = right.get(id);
+      const env = (leftEnv ?? rightEnv) as EnvironmentVariable;
+      const flags = COMPARED_FLAGS.filter((flag) => Boolean(leftEnv?.[flag]) !== Boolean(rightEnv?.[flag]));
+      let status: EnvDiffStatus = "same";
+      if (!rightEnv) status = "only-left";
+      else if (!leftEnv) status = "only-right";
+      else if (envValue(leftEnv) !== envValue(rightEnv)) status = "value";
+      else if (flags.length > 0) status = "flags";
+      return {
+        id,
+        key: env.key as string,
+        isPreview: Boolean(env.is_preview),
+        status,
+        left: leftEnv,
+        right: rightEnv,
+        flags: leftEnv && rightEnv ? flags.map((flag) => flag.replace(/^is_/, "").replace(/_/g, " ")) : [],
+      };
+    })
+    .sort((a, b) => a.key.localeCompare(b.key) || Number(a.isPreview) - Number(b.isPreview));
+}
+
+export function toEnvPayload(env: EnvironmentVariable): EnvironmentVariablePayload {
+  return {
+    key: env.key as string,
+    value: envValue(env),
+    is_preview: Boolean(env.is_preview),
+    is_build_time: Boolean(env.is_build_time),
+    is_literal: Boolean(env.is_literal),
+    is_multiline: Boolean(env.is_multiline),
+    is_shown_once: Boolean(env.is_shown_once),
+  };
+}
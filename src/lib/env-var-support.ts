@@ -0,0 +1,21 @@
+import { useCachedPromise } from "@raycast/utils";
+import { EnvVarResourceType, createCoolifyClient } from "../api/coolify";
+
+// Coolify documents variable endpoints for applications and services only. Database, team, project and environment
+// variables are offered only when the instance answers on a sample resource, so unsupported routes stay hidden.
+export function useEnvVarsSupport(baseUrl: string, token: string, type: EnvVarResourceType, sampleUuid?: string) {
+  const { data } = useCachedPromise(
+    async (currentBaseUrl: string, currentType: EnvVarResourceType, uuid?: string) => {
+      if (currentType === "application" || currentType === "service") return true;
+      if (!uuid) return false;
+      try {
+        await createCoolifyClient({ baseUrl: currentBaseUrl, token }).listEnvironmentVariables(currentType, uuid);
+        return true;
+      } catch {
+        return false;
+      }
+    },
+    [baseUrl, type, sampleUuid],
+  );
+  return data === true;
+}
@@ -0,0 +1,17 @@
+import { createContext, useContext } from "react";
+import { InstanceConnection, InstanceProfile } from "./profiles";
+
+export type InstanceContextValue = InstanceConnection & {
+  profiles: InstanceProfile[];
+  switchInstance: (profileId: string) => Promise<void>;
+};
+
+export const InstanceContext = createContext<InstanceContextValue | null>(null);
+
+export function useInstance(): InstanceContextValue {
+  const value = useContext(InstanceContext);
+  if (!value) {
+    throw new Error("useInstance must be used within WithValidToken");
+  }
+  return value;
+}
@@ -0,0 +1,106 @@
+import { LocalStorage, getPreferenceValues } from "@raycast/api";
+import { Preferences, getInstanceUrl, normalizeBaseUrl } from "../api/client";
+
+export type InstanceProfile = {
+  id: string;
+  name: string;
+  apiUrl: string;
+  apiToken: string;
+};
+
+export type InstanceConnection = {
+  profile: InstanceProfile;
+  baseUrl: string;
+  instanceUrl: string;
+  token: string;
+};
+
+// The profile backed by extension preferences is always available and cannot be deleted.
+export const PREFERENCES_PROFILE_ID = "preferences";
+
+const PROFILES_STORAGE_KEY = "instance-profiles";
+const ACTIVE_PROFILE_STORAGE_KEY = "active-instance-profile";
+
+export function getPreferencesProfile(): InstanceProfile {
+  const { apiUrl, apiToken } = getPreferenceValues<Preferences>();
+  return {
+    id: PREFERENCES_PROFILE_ID,
+    name: "Default",
+    apiUrl: apiUrl ?? "",
+    apiToken: apiToken ?? "",
+  };
+}
+
+async function loadStoredProfiles(): Promise<InstanceProfile[]> {
+  const raw = await LocalStorage.getItem<string>(PROFILES_STORAGE_KEY);
+  if (!raw) return [];
+  try {
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? (parsed as InstanceProfile[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+async function saveStoredProfiles(profiles: InstanceProfile[]) {
+  await LocalStorage.setItem(PROFILES_STORAGE_KEY, JSON.stringify(profiles));
+}
+
+export async function loadProfiles(): Promise<InstanceProfile[]> {
+  return [getPreferencesProfile(), ...(await loadStoredProfiles())];
+}
+
+export async function saveProfile(profile: Omit<InstanceProfile, "id"> & { id?: string }): Promise<InstanceProfile> {
+  if (profile.id === PREFERENCES_PROFILE_ID) {
+    throw new Error("The default instance is configured in Extension Preferences");
+  }
+  const stored = await loadStoredProfiles();
+  const saved: InstanceProfile = {
+    id: profile.id ?? `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    name: profile.name.trim(),
+    apiUrl: profile.apiUrl.trim(),
+    apiToken: profile.apiToken.trim(),
+  };
+  const index = stored.findIndex((item) => item.id === saved.id);
+  if (index >= 0) {
+    stored[index] = saved;
+  } else {
+    stored.push(saved);
+  }
+  await saveStoredProfiles(stored);
+  return saved;
+}
+
+export async function deleteProfile(id: string) {
+  if (id === PREFERENCES_PROFILE_ID) return;
+  const stored = await loadStoredProfiles();
+  await saveStoredProfiles(stored.filter((item) => item.id !== id));
+  if ((await getActiveProfileId()) === id) {
+    await LocalStorage.removeItem(ACTIVE_PROFILE_STORAGE_KEY);
+  }
+}
+
+export async function getActiveProfileId(): Promise<string> {
+  return (await LocalStorage.getItem<string>(ACTIVE_PROFILE_STORAGE_KEY)) ?? PREFERENCES_PROFILE_ID;
+}
+
+export async function setActiveProfileId(id: string) {
+  await LocalStorage.setItem(ACTIVE_PROFILE_STORAGE_KEY, id);
+}
+
+export function toConnection(profile: InstanceProfile): InstanceConnection {
+  const baseUrl = normalizeBaseUrl(profile.apiUrl);
+  return {
+    profile,
+    baseUrl,
+    instanceUrl: getInstanceUrl(baseUrl),
+    token: profile.apiToken.trim(),
+  };
+}
+
+export async function resolveActiveConnection(): Promise<InstanceConnection> {
+  const profiles = await loadProfiles();
+  const activeId = await getActiveProfileId();
+  const profile = profiles.find((item) => item.id === activeId) ?? profiles[0];
+  return toConnection(profile);
+}
@@ -10,6 +10,43 @@ export type Application = {
   status?: string;
   deployment_status?: string;
   last_deployment_status?: string;
+  build_pack?: string;
+  install_command?: string | null;
+  build_command?: string | null;
+  start_command?: string | null;
+  base_directory?: string | null;
+  ports_exposes?: string | null;
+  health_check_enabled?: boolean;
+  health_check_path?: string | null;
+  health_check_interval?: number | null;
+  limits_memory?: string | null;
+  limits_cpus?: string | null;
+  docker_compose_raw?: string | null;
+};
+
+export type ServiceApplication = {
+  id?: number | string;
+  uuid?: string;
+  name?: string;
+  human_name?: string | null;
+  description?: string | null;
+  fqdn?: string | null;
+  image?: string | null;
+  status?: string;
+  exclude_from_status?: boolean;
+};
+
+export type ServiceDatabase = {
+  id?: number | string;
+  uuid?: string;
+  name?: string;
+  human_name?: string | null;
+  description?: string | null;
+  image?: string | null;
+  status?: string;
+  is_public?: boolean;
+  public_port?: number | null;
+  exclude_from_status?: boolean;
 };
 
 export type Service = {
@@ -20,6 +57,10 @@ export type Service = {
   environment_id?: number | string;
   environment_uuid?: string;
   service_type?: string;
+  status?: string;
+  docker_compose_raw?: string | null;
+  applications?: ServiceApplication[];
+  databases?: ServiceDatabase[];
 };
 
 export type Database = {
@@ -30,10 +71,48 @@ export type Database = {
   environment_id?: number | string;
   environment_uuid?: string;
   db_type?: string;
+  status?: string;
+  image?: string;
+  is_public?: boolean;
+  public_port?: number | null;
+  internal_db_url?: string | null;
+  external_db_url?: string | null;
+  destination?: { server?: { uuid?: string; ip?: string } };
+  postgres_user?: string;
+  postgres_password?: string;
+  postgres_db?: string;
+  mysql_root_password?: string;
+  mysql_user?: string;
+  mysql_password?: string;
+  mysql_database?: string;
+  mariadb_root_password?: string;
+  mariadb_user?: string;
+  mariadb_password?: string;
+  mariadb_database?: string;
+  mongo_initdb_root_username?: string;
+  mongo_initdb_root_password?: string;
+  mongo_initdb_database?: string;
+  redis_password?: string;
+  keydb_password?: string;
+  dragonfly_password?: string;
+  clickhouse_admin_user?: string;
+  clickhouse_admin_password?: string;
 };
 
 export type ResourceType = "application" | "service" | "database";
 
+export const BUILD_PACKS = [
+  { title: "Nixpacks", value: "nixpacks", usesGit: true },
+  { title: "Static", value: "static", usesGit: true },
+  { title: "Dockerfile", value: "dockerfile", usesGit: true },
+  { title: "Docker Compose", value: "dockercompose", usesGit: true },
+  { title: "Docker Image", value: "dockerimage", usesGit: false },
+];
+
+export function buildPackUsesGit(buildPack: string) {
+  return BUILD_PACKS.find((item) => item.value === buildPack)?.usesGit ?? true;
+}
+
 export type ResourceItem = {
   id: string;
   uuid?: string;
@@ -90,3 +169,36 @@ export function buildResources(apps: Application[], services: Service[], databas
 
   return [...appItems, ...serviceItems, ...databaseItems];
 }
+
+export type ResourceStatus = {
+  state: string;
+  health?: string;
+  label: string;
+  isRunning: boolean;
+  isHealthy: boolean;
+};
+
+export function parseResourceStatus(status?: string): ResourceStatus {
+  const [state = "", health] = (status ?? "").split(":");
+  return {
+    state,
+    health,
+    label: state ? state.replace(/_/g, " ") : "unknown",
+    isRunning: state === "running",
+    isHealthy: health === "healthy",
+  };
+}
+
+export function needsAttention(status?: string) {
+  if (!status) return false;
+  const { state, health } = parseResourceStatus(status);
+  if (health === "unhealthy") return true;
+  return state !== "running" && state !== "exited" && state !== "stopped";
+}
+
+export function toResourceType(type?: string): ResourceType | undefined {
+  if (!type) return undefined;
+  if (type === "application" || type === "service") return type;
+  if (type.startsWith("standalone-") || type === "database") return "database";
+  return undefined;
+}
@@ -0,0 +1,30 @@
+import { confirmAlert } from "@raycast/api";
+
+export const MASKED_VALUE = "••••••••";
+
+const SECRET_KEY_PATTERN = /(_KEY|_SECRET|_TOKEN|PASSWORD|^DATABASE_URL)$/i;
+
+export function isLikelySecret(key?: string) {
+  return Boolean(key && SECRET_KEY_PATTERN.test(key));
+}
+
+export function maskValue(value?: string | null) {
+  return value ? MASKED_VALUE : "(empty)";
+}
+
+export async function confirmSecretAccess(
+  key: string | undefined,
+  action: "Reveal" | "Copy",
+  { always = false }: { always?: boolean } = {},
+) {
+  if (!always && !isLikelySecret(key)) return true;
+  return confirmAlert({
+    title: `${action} ${key}?`,
+    message: isLikelySecret(key)
+      ? "This looks like a secret. Make sure your screen is not being shared."
+      : action === "Copy"
+        ? "The value will be placed on the clipboard."
+        : "Values will be shown on screen. Make sure your screen is not being shared.",
+    primaryAction: { title: action },
+  });
+}
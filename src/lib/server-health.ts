@@ -0,0 +1,88 @@
+import { LocalStorage } from "@raycast/api";
+import { Server, ServerResource } from "../api/types";
+import { parseResourceStatus } from "./resources";
+
+export type ReachabilityCheck = {
+  checkedAt: number;
+  isReachable: boolean;
+  isUsable: boolean;
+};
+
+export type ResourceCounts = {
+  total: number;
+  running: number;
+  exited: number;
+  unhealthy: number;
+};
+
+const HISTORY_STORAGE_KEY = "server-reachability-history";
+const MAX_HISTORY = 20;
+
+async function readHistory(): Promise<Record<string, ReachabilityCheck[]>> {
+  const raw = await LocalStorage.getItem<string>(HISTORY_STORAGE_KEY);
+  if (!raw) return {};
+  try {
+    const parsed = JSON.parse(raw);
+    return parsed && typeof parsed === "object" && !Array.isArray(parsed) ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+export function isServerReachable(server: Server) {
+  return Boolean(server.is_reachable ?? server.settings?.is_reachable);
+}
+
+export function isServerUsable(server: Server) {
+  return Boolean(server.is_usable ?? server.settings?.is_usable);
+}
+
+export function isBuildServer(server: Server) {
+  return Boolean(server.is_build_server ?? server.settings?.is_build_server);
+}
+
+export async function loadReachabilityHistory(serverUuid: string): Promise<ReachabilityCheck[]> {
+  return (await readHistory())[serverUuid] ?? [];
+}
+
+// Validations are always recorded; other observations, like opening the dashboard, only when the state changed, so
+// the history does not fill up with refreshes.
+export async function recordReachability(
+  serverUuid: string,
+  server: Server,
+  { onlyIfChanged = false }: { onlyIfChanged?: boolean } = {},
+): Promise<ReachabilityCheck[]> {
+  const history = await readHistory();
+  const previous = history[serverUuid] ?? [];
+  const check = { checkedAt: Date.now(), isReachable: isServerReachable(server), isUsable: isServerUsable(server) };
+  const last = previous[0];
+  if (onlyIfChanged && last && last.isReachable === check.isReachable && last.isUsable === check.isUsable) {
+    return previous;
+  }
+  const checks = [check, ...previous].slice(0, MAX_HISTORY);
+  await LocalStorage.setItem(HISTORY_STORAGE_KEY, JSON.stringify({ ...history, [serverUuid]: checks }));
+  return checks;
+}
+
+export function countStateChanges(checks: ReachabilityCheck[]) {
+  return checks
+    .slice(1)
+    .filter(
+      (check, index) => check.isReachable !== checks[index].isReachable || check.isUsable !== checks[index].isUsable,
+    ).length;
+}
+
+export function countResources(resources: ServerResource[]): ResourceCounts {
+  return resources.reduce<ResourceCounts>(
+    (counts, resource) => {
+      const { state, health } = parseResourceStatus(resource.status);
+      return {
+        total: counts.total + 1,
+        running: counts.running + (state === "running" ? 1 : 0),
+        exited: counts.exited + (state === "exited" || state === "stopped" ? 1 : 0),
+        unhealthy: counts.unhealthy + (health === "unhealthy" ? 1 : 0),
+      };
+    },
+    { total: 0, running: 0, exited: 0, unhealthy: 0 },
+  );
+}
@@ -0,0 +1,73 @@
+import { Server } from "../api/types";
+import { isServerReachable, isServerUsable } from "./server-health";
+
+export type ValidationStepStatus = "pending" | "passed" | "failed" | "skipped";
+
+export type ValidationStep = {
+  title: string;
+  status: ValidationStepStatus;
+  // Set when the status is read from Coolify's error message rather than a server field.
+  inferred?: boolean;
+};
+
+export type ValidationResult = {
+  completed: boolean;
+  passed: boolean;
+  steps: ValidationStep[];
+  error?: string;
+};
+
+export function getValidationError(server: Server) {
+  const text = (server.validation_logs ?? "")
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<[^>]+>/g, "")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+  return text || undefined;
+}
+
+function changedSince(baseline: Server, server: Server) {
+  return server.updated_at !== baseline.updated_at || server.settings?.updated_at !== baseline.settings?.updated_at;
+}
+
+/**
+ * Coolify's validation job clears `validation_logs`, then either writes the failure reason there or marks the server
+ * reachable and usable. An error counts once it differs from the pre-validation one (or was rewritten); success counts
+ * as soon as both flags are set, even when a healthy server had nothing to update.
+ */
+export function isValidationComplete(baseline: Server, server: Server) {
+  const error = getValidationError(server);
+  if (error) return error !== getValidationError(baseline) || changedSince(baseline, server);
+  return isServerReachable(server) && isServerUsable(server);
+}
+
+function dockerSteps(reachable: boolean, usable: boolean, error?: string): ValidationStepStatus[] {
+  if (usable) return ["passed", "passed"];
+  if (!reachable) return ["skipped", "skipped"];
+  if (error && /not installed/i.test(error)) return ["failed", "skipped"];
+  if (error && /version/i.test(error)) return ["passed", "failed"];
+  return ["failed", "skipped"];
+}
+
+export function describeValidation(server: Server | undefined, completed: boolean): ValidationResult {
+  const reachable = completed && server ? isServerReachable(server) : false;
+  const usable = completed && server ? isServerUsable(server) : false;
+  const passed = reachable && usable;
+  const error = server && completed && !passed ? getValidationError(server) : undefined;
+  const [installed, version]: ValidationStepStatus[] = completed
+    ? dockerSteps(reachable, usable, error)
+    : ["pending", "pending"];
+  // Coolify only exposes reachable/usable, so which Docker check failed comes from its error message.
+  const inferred = completed && reachable && !usable;
+
+  return {
+    completed,
+    passed,
+    error,
+    steps: [
+      { title: "SSH Connectivity", status: !completed ? "pending" : reachable ? "passed" : "failed" },
+      { title: "Docker Installed", status: installed, inferred },
+      { title: "Docker Version", status: version, inferred },
+    ],
+  };
+}
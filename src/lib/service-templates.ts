@@ -0,0 +1,50 @@
+import { DEFAULT_TIMEOUT_MS } from "../api/client";
+
+const TEMPLATES_URL = "https://cdn.coollabs.io/coolify/service-templates.json";
+
+type RawTemplate = {
+  slogan?: string;
+  documentation?: string;
+  logo?: string;
+  tags?: string[] | null;
+  port?: string;
+};
+
+export type ServiceTemplate = {
+  type: string;
+  name: string;
+  slogan?: string;
+  documentation?: string;
+  logo?: string;
+  tags: string[];
+};
+
+function formatTemplateName(type: string) {
+  return type
+    .split(/[-_]/)
+    .filter(Boolean)
+    .map((word) => word[0].toUpperCase() + word.slice(1))
+    .join(" ");
+}
+
+export function getTemplateLogoUrl(instanceUrl: string, template: ServiceTemplate) {
+  if (!template.logo) return undefined;
+  if (/^https?:\/\//.test(template.logo)) return template.logo;
+  return `${instanceUrl.replace(/\/+$/, "")}/${template.logo.replace(/^\/+/, "")}`;
+}
+
+export async function fetchServiceTemplates(): Promise<ServiceTemplate[]> {
+  const response = await fetch(TEMPLATES_URL, { signal: AbortSignal.timeout(DEFAULT_TIMEOUT_MS) });
+  if (!response.ok) throw new Error(`Failed to load service templates (${response.status})`);
+  const templates = (await response.json()) as Record<string, RawTemplate>;
+  return Object.entries(templates)
+    .map(([type, template]) => ({
+      type,
+      name: formatTemplateName(type),
+      slogan: template.slogan,
+      documentation: template.documentation,
+      logo: template.logo,
+      tags: template.tags ?? [],
+    }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
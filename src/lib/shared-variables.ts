@@ -0,0 +1,69 @@
+import { CoolifyClient, EnvVarResourceType, SharedVariableScope } from "../api/coolify";
+import { CoolifyApiError, getErrorMessage } from "../api/errors";
+import { EnvironmentVariable } from "../api/types";
+
+const REFERENCE_PATTERN = /\{\{\s*(team|project|environment)\.([A-Za-z0-9_.-]+)\s*\}\}/g;
+
+export const SHARED_SCOPES: SharedVariableScope[] = ["team", "project", "environment"];
+
+export type SharedReference = {
+  scope: SharedVariableScope;
+  key: string;
+  reference: string;
+};
+
+export function isSharedScope(type: string): type is SharedVariableScope {
+  return (SHARED_SCOPES as string[]).includes(type);
+}
+
+export function sharedReference(scope: SharedVariableScope, key: string) {
+  return `{{${scope}.${key}}}`;
+}
+
+export function findSharedReferences(value: string): SharedReference[] {
+  return [...value.matchAll(REFERENCE_PATTERN)].map((match) => ({
+    scope: match[1] as SharedVariableScope,
+    key: match[2],
+    reference: sharedReference(match[1] as SharedVariableScope, match[2]),
+  }));
+}
+
+export type SharedVariables = {
+  resolved: Map<string, EnvironmentVariable>;
+  failures: Partial<Record<SharedVariableScope, string>>;
+};
+
+// Only application and service variables are part of Coolify's documented API; other scopes depend on the instance.
+export function describeEnvVarsError(type: EnvVarResourceType, error: unknown) {
+  if (error instanceof CoolifyApiError && error.status === 404 && type !== "application" && type !== "service") {
+    return `This Coolify instance does not expose ${type} variables through the API.`;
+  }
+  return getErrorMessage(error);
+}
+
+export async function loadSharedVariables(
+  client: CoolifyClient,
+  { projectUuid, environmentUuid }: { projectUuid?: string; environmentUuid?: string },
+): Promise<SharedVariables> {
+  const sources: [SharedVariableScope, string | undefined][] = [
+    ["team", "current"],
+    ["project", projectUuid],
+    ["environment", environmentUuid],
+  ];
+  const resolved = new Map<string, EnvironmentVariable>();
+  const failures: SharedVariables["failures"] = {};
+  await Promise.all(
+    sources.map(async ([scope, uuid]) => {
+      if (!uuid) return;
+      try {
+        const envs = await client.listEnvironmentVariables(scope, uuid);
+        for (const env of envs) {
+          if (env.key) resolved.set(sharedReference(scope, env.key), env);
+        }
+      } catch (error) {
+        failures[scope] = describeEnvVarsError(scope, error);
+      }
+    }),
+  );
+  return { resolved, failures };
+}
@@ -0,0 +1,79 @@
+import { LocalStorage } from "@raycast/api";
+import { DeployResponse } from "../api/types";
+import { loadProfiles, toConnection } from "./profiles";
+
+export type TrackedDeployment = {
+  deploymentUuid: string;
+  resourceUuid?: string;
+  profileId: string;
+  triggeredAt: number;
+};
+
+export type FinishedDeployment = {
+  deploymentUuid: string;
+  name: string;
+  status: string;
+  succeeded: boolean;
+  durationMs?: number;
+  url?: string;
+  finishedAt: number;
+};
+
+const TRACKED_STORAGE_KEY = "tracked-deployments";
+const FINISHED_STORAGE_KEY = "finished-deployments";
+const MAX_FINISHED = 10;
+
+async function readList<T>(key: string): Promise<T[]> {
+  const raw = await LocalStorage.getItem<string>(key);
+  if (!raw) return [];
+  try {
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? (parsed as T[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+export async function loadTrackedDeployments(): Promise<TrackedDeployment[]> {
+  return readList<TrackedDeployment>(TRACKED_STORAGE_KEY);
+}
+
+export async function saveTrackedDeployments(tracked: TrackedDeployment[]) {
+  await LocalStorage.setItem(TRACKED_STORAGE_KEY, JSON.stringify(tracked));
+}
+
+// Profiles can share a URL (for example two teams on Coolify Cloud), so the token picks the profile.
+async function findProfileId({ baseUrl, token }: { baseUrl: string; token: string }) {
+  const connections = (await loadProfiles()).map(toConnection);
+  return connections.find((connection) => connection.baseUrl === baseUrl && connection.token === token)?.profile.id;
+}
+
+export async function trackDeployments(
+  connection: { baseUrl: string; token: string },
+  response: DeployResponse | undefined,
+) {
+  const profileId = await findProfileId(connection);
+  if (!profileId) return;
+  const started = (response?.deployments ?? [])
+    .filter((item) => item.deployment_uuid)
+    .map((item) => ({
+      deploymentUuid: String(item.deployment_uuid),
+      resourceUuid: item.resource_uuid,
+      profileId,
+      triggeredAt: Date.now(),
+    }));
+  if (started.length === 0) return;
+  const tracked = await loadTrackedDeployments();
+  const known = new Set(tracked.map((item) => item.deploymentUuid));
+  await saveTrackedDeployments([...tracked, ...started.filter((item) => !known.has(item.deploymentUuid))]);
+}
+
+export async function loadFinishedDeployments(): Promise<FinishedDeployment[]> {
+  return readList<FinishedDeployment>(FINISHED_STORAGE_KEY);
+}
+
+export async function recordFinishedDeployments(finished: FinishedDeployment[]) {
+  if (finished.length === 0) return;
+  const previous = await loadFinishedDeployments();
+  await LocalStorage.setItem(FINISHED_STORAGE_KEY, JSON.stringify([...finished, ...previous].slice(0, MAX_FINISHED)));
+}
@@ -0,0 +1,101 @@
+import { isLikelySecret } from "./secrets";
+
+export type FieldType = "string" | "number" | "boolean";
+
+export type UpdatableResourceType = "service" | "database";
+
+const SERVICE_FIELDS: Record<string, FieldType> = {
+  name: "string",
+  description: "string",
+  connect_to_docker_network: "boolean",
+};
+
+const DATABASE_FIELDS: Record<string, FieldType> = {
+  name: "string",
+  description: "string",
+  image: "string",
+  is_public: "boolean",
+  public_port: "number",
+  limits_memory: "string",
+  limits_memory_swap: "string",
+  limits_memory_swappiness: "number",
+  limits_memory_reservation: "string",
+  limits_cpus: "string",
+  limits_cpuset: "string",
+  limits_cpu_shares: "number",
+  postgres_user: "string",
+  postgres_password: "string",
+  postgres_db: "string",
+  postgres_initdb_args: "string",
+  postgres_host_auth_method: "string",
+  postgres_conf: "string",
+  mysql_root_password: "string",
+  mysql_user: "string",
+  mysql_password: "string",
+  mysql_database: "string",
+  mysql_conf: "string",
+  mariadb_root_password: "string",
+  mariadb_user: "string",
+  mariadb_password: "string",
+  mariadb_database: "string",
+  mariadb_conf: "string",
+  mongo_initdb_root_username: "string",
+  mongo_initdb_root_password: "string",
+  mongo_initdb_database: "string",
+  mongo_conf: "string",
+  redis_password: "string",
+  redis_conf: "string",
+  keydb_password: "string",
+  keydb_conf: "string",
+  dragonfly_password: "string",
+  clickhouse_admin_user: "string",
+  clickhouse_admin_password: "string",
+};
+
+export const UPDATABLE_FIELDS: Record<UpdatableResourceType, Record<string, FieldType>> = {
+  service: SERVICE_FIELDS,
+  database: DATABASE_FIELDS,
+};
+
+export function pickUpdatableFields(resourceType: UpdatableResourceType, resource: unknown) {
+  const fields = UPDATABLE_FIELDS[resourceType];
+  const picked: Record<string, unknown> = {};
+  if (!resource || typeof resource !== "object") return picked;
+  for (const [key, value] of Object.entries(resource as Record<string, unknown>)) {
+    if (key in fields && value !== undefined) picked[key] = value;
+  }
+  return picked;
+}
+
+export function omitSecretFields(fields: Record<string, unknown>) {
+  return Object.fromEntries(Object.entries(fields).filter(([key]) => !isLikelySecret(key)));
+}
+
+export function validateUpdatableFields(resourceType: UpdatableResourceType, payload: unknown): string[] {
+  if (!payload || typeof payload !== "object" || Array.isArray(payload)) {
+    return ["The payload must be a JSON object."];
+  }
+  const fields = UPDATABLE_FIELDS[resourceType];
+  const errors: string[] = [];
+  for (const [key, value] of Object.entries(payload as Record<string, unknown>)) {
+    const expected = fields[key];
+    if (!expected) {
+      errors.push(`${key} is read-only or unknown for a ${resourceType}.`);
+    } else if (value !== null && typeof value !== expected) {
+      errors.push(`${key} must be a ${expected}.`);
+    }
+  }
+  return errors;
+}
+
+export type FieldChange = {
+  key: string;
+  before: unknown;
+  after: unknown;
+};
+
+export function diffFields(before: Record<string, unknown>, after: Record<string, unknown>): FieldChange[] {
+  return Object.keys(after)
+    .filter((key) => JSON.stringify(before[key] ?? null) !== JSON.stringify(after[key] ?? null))
+    .map((key) => ({ key, before: before[key], after: after[key] }));
+}
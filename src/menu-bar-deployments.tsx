@@ -0,0 +1,261 @@
+import {
+  Clipboard,
+  Color,
+  Icon,
+  LaunchType,
+  MenuBarExtra,
+  launchCommand,
+  open,
+  openExtensionPreferences,
+  showHUD,
+} from "@raycast/api";
+import { usePromise } from "@raycast/utils";
+import { CoolifyClient, createCoolifyClient } from "./api/coolify";
+import { getErrorMessage } from "./api/errors";
+import { Deployment, ServerResource } from "./api/types";
+import { isActiveStatus, normalizeStatus, resolveDeployUrl } from "./lib/deployments";
+import { resolveActiveConnection } from "./lib/profiles";
+import { needsAttention, parseResourceStatus, toResourceType } from "./lib/resources";
+import { loadFinishedDeployments, trackDeployments } from "./lib/tracked-deployments";
+import { formatDuration } from "./utils/time";
+
+async function loadStatus() {
+  const connection = await resolveActiveConnection();
+  const client = createCoolifyClient(connection);
+  const [deployments, resources, applications, finished] = await Promise.all([
+    client.listDeployments(),
+    client.listResources(),
+    client.listApplications(),
+    loadFinishedDeployments(),
+  ]);
+  const appUuidById = new Map<string, string>();
+  for (const app of applications) {
+    if (app.id !== undefined && app.uuid) appUuidById.set(String(app.id), app.uuid);
+  }
+  return {
+    connection,
+    active: deployments.filter((deployment) => isActiveStatus(deployment.status)),
+    unhealthy: resources.filter((resource) => needsAttention(resource.status)),
+    appUuidById,
+    finished,
+  };
+}
+
+async function runAction(title: string, action: () => Promise<unknown>) {
+  try {
+    await action();
+    await showHUD(title);
+  } catch (error) {
+    await showHUD(`Failed: ${getErrorMessage(error)}`);
+  }
+}
+
+function deploymentIcon(status?: string) {
+  const value = normalizeStatus(status);
+  if (value === "queued" || value === "pending") return { source: Icon.Clock, tintColor: Color.Yellow };
+  return { source: Icon.CircleProgress50, tintColor: Color.Blue };
+}
+
+export default function Command() {
+  const { data, isLoading, error } = usePromise(loadStatus);
+  const active = data?.active ?? [];
+  const unhealthy = data?.unhealthy ?? [];
+  const finished = data?.finished ?? [];
+  const client = data ? createCoolifyClient(data.connection) : undefined;
+  const baseUrl = data?.connection.baseUrl ?? "";
+  const token = data?.connection.token ?? "";
+  const instanceUrl = data?.connection.instanceUrl ?? "";
+
+  const title = active.length > 0 ? String(active.length) : undefined;
+  const icon =
+    unhealthy.length > 0
+      ? { source: "coolify-logo.png", tintColor: Color.Red }
+      : { source: "coolify-logo.png", tintColor: active.length > 0 ? Color.Blue : undefined };
+
+  return (
+    <MenuBarExtra
+      icon={icon}
+      title={title}
+      isLoading={isLoading}
+      tooltip={`${active.length} in-progress deployments, ${unhealthy.length} resources need attention`}
+    >
+      {error ? (
+        <MenuBarExtra.Section>
+          <MenuBarExtra.Item
+            icon={{ source: Icon.Warning, tintColor: Color.Red }}
+            title="Failed to load Coolify status"
+            subtitle={getErrorMessage(error)}
+            onAction={openExtensionPreferences}
+          />
+        </MenuBarExtra.Section>
+      ) : null}
+      <MenuBarExtra.Section title={`Deployments in Progress (${active.length})`}>
+        {active.length === 0 && !isLoading ? <MenuBarExtra.Item title="No active deployments" /> : null}
+        {active.map((deployment) => (
+          <DeploymentMenu
+            key={String(deployment.deployment_uuid ?? deployment.id)}
+            deployment={deployment}
+            applicationUuid={
+              deployment.application_uuid ??
+              (deployment.application_id !== undefined
+                ? data?.appUuidById.get(String(deployment.application_id))
+                : undefined)
+            }
+            baseUrl={baseUrl}
+            token={token}
+            instanceUrl={instanceUrl}
+            client={client}
+          />
+        ))}
+      </MenuBarExtra.Section>
+      <MenuBarExtra.Section title={`Needs Attention (${unhealthy.length})`}>
+        {unhealthy.length === 0 && !isLoading ? <MenuBarExtra.Item title="All resources healthy" /> : null}
+        {unhealthy.map((resource) => (
+          <ResourceMenu
+            key={String(resource.uuid ?? resource.name)}
+            resource={resource}
+            baseUrl={baseUrl}
+            token={token}
+            client={client}
+          />
+        ))}
+      </MenuBarExtra.Section>
+      {finished.length > 0 ? (
+        <MenuBarExtra.Section title="Recently Finished">
+          {finished.map((item) => (
+            <MenuBarExtra.Item
+              key={item.deploymentUuid}
+              icon={
+                item.succeeded
+                  ? { source: Icon.CheckCircle, tintColor: Color.Green }
+                  : { source: Icon.XMarkCircle, tintColor: Color.Red }
+              }
+              title={item.name}
+              subtitle={item.durationMs !== undefined ? formatDuration(item.durationMs) : item.status}
+              tooltip={new Date(item.finishedAt).toLocaleString()}
+              onAction={item.url ? () => open(item.url as string) : undefined}
+            />
+          ))}
+        </MenuBarExtra.Section>
+      ) : null}
+      <MenuBarExtra.Section>
+        <MenuBarExtra.Item
+          icon={Icon.List}
+          title="Search Deployments"
+          onAction={() => launchCommand({ name: "search-deployments", type: LaunchType.UserInitiated })}
+        />
+        {instanceUrl ? (
+          <MenuBarExtra.Item icon={Icon.Globe} title="Open Coolify" onAction={() => open(instanceUrl)} />
+        ) : null}
+      </MenuBarExtra.Section>
+    </MenuBarExtra>
+  );
+}
+
+function DeploymentMenu({
+  deployment,
+  applicationUuid,
+  baseUrl,
+  token,
+  instanceUrl,
+  client,
+}: {
+  deployment: Deployment;
+  applicationUuid?: string;
+  baseUrl: string;
+  token: string;
+  instanceUrl: string;
+  client?: CoolifyClient;
+}) {
+  const logsUrl = resolveDeployUrl(deployment.deployment_url, instanceUrl);
+  const deploymentUuid = deployment.deployment_uuid;
+
+  return (
+    <MenuBarExtra.Submenu
+      icon={deploymentIcon(deployment.status)}
+      title={`${deployment.application_name ?? "Application"} · ${normalizeStatus(deployment.status).replace(/_/g, " ")}`}
+    >
+      {logsUrl ? <MenuBarExtra.Item icon={Icon.Terminal} title="Open Logs" onAction={() => open(logsUrl)} /> : null}
+      {client && deploymentUuid ? (
+        <MenuBarExtra.Item
+          icon={Icon.XMarkCircle}
+          title="Cancel Deployment"
+          onAction={() => runAction("Deployment canceled", () => client.cancelDeployment(deploymentUuid))}
+        />
+      ) : null}
+      {client && applicationUuid ? (
+        <MenuBarExtra.Item
+          icon={Icon.ArrowClockwise}
+          title="Redeploy"
+          onAction={() =>
+            runAction("Redeploy triggered", async () =>
+              trackDeployments({ baseUrl, token }, await client.deploy(applicationUuid)),
+            )
+          }
+        />
+      ) : null}
+      {deploymentUuid ? (
+        <MenuBarExtra.Item
+          icon={Icon.Clipboard}
+          title="Copy Deployment UUID"
+          onAction={() => Clipboard.copy(deploymentUuid)}
+        />
+      ) : null}
+    </MenuBarExtra.Submenu>
+  );
+}
+
+function ResourceMenu({
+  resource,
+  baseUrl,
+  token,
+  client,
+}: {
+  resource: ServerResource;
+  baseUrl: string;
+  token: string;
+  client?: CoolifyClient;
+}) {
+  const { label, health } = parseResourceStatus(resource.status);
+  const type = toResourceType(resource.type);
+  const uuid = resource.uuid;
+
+  return (
+    <MenuBarExtra.Submenu
+      icon={{ source: Icon.Warning, tintColor: health === "unhealthy" ? Color.Orange : Color.Red }}
+      title={`${resource.name ?? "Unnamed Resource"} · ${health ? `${label} (${health})` : label}`}
+    >
+      {client && uuid && type === "application" ? (
+        <MenuBarExtra.Item
+          icon={Icon.Terminal}
+          title="Copy Last 100 Log Lines"
+          onAction={() =>
+            runAction("Copied logs", async () => {
+              const response = await client.getApplicationLogs(uuid, 100);
+              await Clipboard.copy(typeof response === "string" ? response : (response?.logs ?? ""));
+            })
+          }
+        />
+      ) : null}
+      {client && uuid ? (
+        <MenuBarExtra.Item
+          icon={Icon.ArrowClockwise}
+          title="Redeploy"
+          onAction={() =>
+            runAction("Redeploy triggered", async () => trackDeployments({ baseUrl, token }, await client.deploy(uuid)))
+          }
+        />
+      ) : null}
+      {client && uuid && type ? (
+        <MenuBarExtra.Item
+          icon={Icon.RotateClockwise}
+          title="Restart"
+          onAction={() => runAction("Restart triggered", () => client.restartResource(type, uuid))}
+        />
+      ) : null}
+      {uuid ? (
+        <MenuBarExtra.Item icon={Icon.Clipboard} title="Copy UUID" onAction={() => Clipboard.copy(uuid)} />
+      ) : null}
+    </MenuBarExtra.Submenu>
+  );
+}
@@ -1,12 +1,14 @@
 import { Action, ActionPanel, Detail, Icon, openExtensionPreferences } from "@raycast/api";
+import InstancesList from "../../components/instances/instances-list";
 
-export default function InvalidTokenView() {
+export default function InvalidTokenView({ onSwitched }: { onSwitched?: () => void }) {
   return (
     <Detail
-      markdown={`# ERROR\n\nInvalid API token. Please set one in the extension settings.`}
+      markdown={`# ERROR\n\nInvalid API token. Please set one in the extension settings or switch to another instance.`}
       actions={
         <ActionPanel>
           <Action icon={Icon.Gear} title="Open Extension Preferences" onAction={openExtensionPreferences} />
+          <Action.Push icon={Icon.Switch} title="Switch Instance" target={<InstancesList onSwitched={onSwitched} />} />
         </ActionPanel>
       }
     />
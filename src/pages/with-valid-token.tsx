@@ -1,23 +1,46 @@
 import type { FC, PropsWithChildren } from "react";
 import { Detail } from "@raycast/api";
 import { usePromise } from "@raycast/utils";
+import { InstanceContext } from "../lib/instance-context";
+import { loadProfiles, resolveActiveConnection, setActiveProfileId } from "../lib/profiles";
 import isValidToken from "../utils/is-valid-token";
 import InvalidTokenView from "./details/invalid-token-view";
 
 const WithValidToken: FC<PropsWithChildren<object>> = ({ children }) => {
-  const { isLoading, error } = usePromise(isValidToken, [], {
-    failureToastOptions: {
-      title: "Invalid API token. Please set one in settings.",
+  const { isLoading, data, error, revalidate } = usePromise(
+    async () => {
+      const connection = await resolveActiveConnection();
+      const profiles = await loadProfiles();
+      await isValidToken(connection);
+      return { connection, profiles };
     },
-  });
+    [],
+    {
+      failureToastOptions: {
+        title: "Invalid API token. Please set one in settings.",
+      },
+    },
+  );
 
   if (isLoading) return <Detail isLoading />;
 
-  if (error) {
-    return <InvalidTokenView />;
+  if (error || !data) {
+    return <InvalidTokenView onSwitched={revalidate} />;
   }
 
-  return <>{children}</>;
+  const switchInstance = async (profileId: string) => {
+    await setActiveProfileId(profileId);
+    revalidate();
+  };
+
+  return (
+    <InstanceContext.Provider value={{ ...data.connection, profiles: data.profiles, switchInstance }}>
+      <InstanceScope key={data.connection.profile.id}>{children}</InstanceScope>
+    </InstanceContext.Provider>
+  );
 };
 
+// Keyed by profile so every view remounts (and refetches) when the active instance changes.
+const InstanceScope: FC<PropsWithChildren<object>> = ({ children }) => <>{children}</>;
+
 export default WithValidToken;
@@ -1,12 +1,9 @@
-import { getPreferenceValues } from "@raycast/api";
-import { Preferences, normalizeBaseUrl } from "./api/client";
 import JsonDetail from "./components/json-detail";
+import { useInstance } from "./lib/instance-context";
 import WithValidToken from "./pages/with-valid-token";
 
 function ResourcesApiView() {
-  const { apiUrl, apiToken } = getPreferenceValues<Preferences>();
-  const baseUrl = normalizeBaseUrl(apiUrl ?? "");
-  const token = apiToken?.trim() ?? "";
+  const { baseUrl, token } = useInstance();
 
   return <JsonDetail title="Resources (API)" baseUrl={baseUrl} token={token} path="/resources" />;
 }
@@ -1,7 +1,8 @@
-import { Action, ActionPanel, Color, Icon, List, Toast, getPreferenceValues, showToast } from "@raycast/api";
+import { Action, ActionPanel, Color, Icon, List, Toast, showToast } from "@raycast/api";
 import { useCachedPromise } from "@raycast/utils";
 import { useMemo, useState } from "react";
-import { Preferences, fetchProjectEnvironments, getInstanceUrl, normalizeBaseUrl, requestJson } from "./api/client";
+import { fetchProjectEnvironments } from "./api/client";
+import { createCoolifyClient } from "./api/coolify";
 import {
   Project,
   buildEnvLookup,
@@ -10,29 +11,21 @@ import {
   buildEnvToProjectMap,
   toId,
 } from "./api/filters";
+import { getErrorMessage } from "./api/errors";
 import ApplicationDeploymentsList from "./components/application-deployments";
+import ApplicationSettingsForm from "./components/application-settings-form";
+import ComposeEditor from "./components/compose-editor";
 import DeleteResourceForm from "./components/delete-resource";
 import { buildConsoleLogsUrl, LogsSubmenu } from "./components/logs-actions";
 import JsonDetail from "./components/json-detail";
 import { ResourceDetails } from "./components/resource-details";
 import { RedeploySubmenu } from "./components/redeploy-actions";
 import EnvironmentVariablesList from "./components/environment-variables";
+import { InstanceDropdownSection, useInstanceFilterChange } from "./components/instance-dropdown";
+import { useInstance } from "./lib/instance-context";
+import { Application } from "./lib/resources";
 import WithValidToken from "./pages/with-valid-token";
 
-type Application = {
-  id?: number | string;
-  uuid?: string;
-  name?: string;
-  fqdn?: string;
-  git_repository?: string;
-  git_branch?: string;
-  environment_id?: number | string;
-  environment_uuid?: string;
-  status?: string;
-  deployment_status?: string;
-  last_deployment_status?: string;
-};
-
 function getPrimaryUrl(app: Application): string | undefined {
   if (!app.fqdn) return undefined;
   const raw = app.fqdn.split(",")[0]?.trim();
@@ -109,16 +102,16 @@ function applyFilter(
 }
 
 function ApplicationsList() {
-  const { apiUrl, apiToken } = getPreferenceValues<Preferences>();
-  const baseUrl = normalizeBaseUrl(apiUrl ?? "");
-  const instanceUrl = getInstanceUrl(baseUrl);
-  const token = apiToken?.trim() ?? "";
+  const { baseUrl, instanceUrl, profile, token } = useInstance();
+  const client = createCoolifyClient({ baseUrl, token });
   const [filterValue, setFilterValue] = useState("all");
   const [searchText, setSearchText] = useState("");
+  const handleFilterChange = useInstanceFilterChange(setFilterValue);
 
   const { data: projects, isLoading: isLoadingProjects } = useCachedPromise(
-    async () => requestJson<Project[]>("/projects", { baseUrl, token }),
-    [],
+    async (currentProfileId: string, currentBaseUrl: string) =>
+      createCoolifyClient({ baseUrl: currentBaseUrl, token }).listProjects(),
+    [profile.id, baseUrl],
     { keepPreviousData: true },
   );
 
@@ -133,9 +126,14 @@ function ApplicationsList() {
   const envNameToIds = useMemo(() => buildEnvNameToIdsMap(environments ?? []), [environments]);
   const hasEnvMapping = envToProjectMap.size > 0;
 
-  const { data: applications, isLoading: isLoadingApplications } = useCachedPromise(
-    async () => requestJson<Application[]>("/applications", { baseUrl, token }),
-    [],
+  const {
+    data: applications,
+    isLoading: isLoadingApplications,
+    revalidate: revalidateApplications,
+  } = useCachedPromise(
+    async (currentProfileId: string, currentBaseUrl: string) =>
+      createCoolifyClient({ baseUrl: currentBaseUrl, token }).listApplications(),
+    [profile.id, baseUrl],
     { keepPreviousData: true },
   );
 
@@ -159,7 +157,7 @@ function ApplicationsList() {
       onSearchTextChange={setSearchText}
       throttle
       searchBarAccessory={
-        <List.Dropdown tooltip="Filter" onChange={setFilterValue}>
+        <List.Dropdown tooltip="Filter" onChange={handleFilterChange}>
           <List.Dropdown.Item key="all" title="All Applications" value="all" />
           {projects && projects.length > 0 && hasEnvMapping ? (
             <List.Dropdown.Section title="Projects">
@@ -183,6 +181,7 @@ function ApplicationsList() {
               ))}
             </List.Dropdown.Section>
           ) : null}
+          <InstanceDropdownSection />
         </List.Dropdown>
       }
     >
@@ -271,7 +270,13 @@ function ApplicationsList() {
                         <EnvironmentVariablesList
                           baseUrl={baseUrl}
                           token={token}
-                          resource={{ type: "application", uuid: String(app.uuid), name: title }}
+                          resource={{
+                            type: "application",
+                            uuid: String(app.uuid),
+                            name: title,
+                            projectUuid,
+                            environmentUuid: envUuid,
+                          }}
                         />
                       }
                     />
@@ -308,13 +313,13 @@ function ApplicationsList() {
                       title="Start"
                       onAction={async () => {
                         try {
-                          await requestJson(`/applications/${app.uuid}/start`, { baseUrl, token });
+                          await client.startResource("application", String(app.uuid));
                           await showToast({ style: Toast.Style.Success, title: "Start triggered" });
                         } catch (error) {
                           await showToast({
                             style: Toast.Style.Failure,
                             title: "Failed to start",
-                            message: error instanceof Error ? error.message : String(error),
+                            message: getErrorMessage(error),
                           });
                         }
                       }}
@@ -324,13 +329,13 @@ function ApplicationsList() {
                       title="Stop"
                       onAction={async () => {
                         try {
-                          await requestJson(`/applications/${app.uuid}/stop`, { baseUrl, token });
+                          await client.stopResource("application", String(app.uuid));
                           await showToast({ style: Toast.Style.Success, title: "Stop triggered" });
                         } catch (error) {
                           await showToast({
                             style: Toast.Style.Failure,
                             title: "Failed to stop",
-                            message: error instanceof Error ? error.message : String(error),
+                            message: getErrorMessage(error),
                           });
                         }
                       }}
@@ -340,13 +345,13 @@ function ApplicationsList() {
                       title="Restart"
                       onAction={async () => {
                         try {
-                          await requestJson(`/applications/${app.uuid}/restart`, { baseUrl, token });
+                          await client.restartResource("application", String(app.uuid));
                           await showToast({ style: Toast.Style.Success, title: "Restart triggered" });
                         } catch (error) {
                           await showToast({
                             style: Toast.Style.Failure,
                             title: "Failed to restart",
-                            message: error instanceof Error ? error.message : String(error),
+                            message: getErrorMessage(error),
                           });
                         }
                       }}
@@ -363,6 +368,32 @@ function ApplicationsList() {
                         />
                       }
                     />
+                    {app.build_pack === "dockercompose" ? (
+                      <Action.Push
+                        title="Edit Docker Compose"
+                        icon={Icon.Document}
+                        target={
+                          <ComposeEditor
+                            baseUrl={baseUrl}
+                            token={token}
+                            resource={{ type: "application", uuid: String(app.uuid), name: title }}
+                          />
+                        }
+                      />
+                    ) : null}
+                    <Action.Push
+                      title="Update Application Settings"
+                      icon={Icon.Pencil}
+                      shortcut={{ modifiers: ["cmd"], key: "e" }}
+                      target={
+                        <ApplicationSettingsForm
+                          baseUrl={baseUrl}
+                          token={token}
+                          uuid={String(app.uuid)}
+                          onUpdated={revalidateApplications}
+                        />
+                      }
+                    />
                     <Action.Push
                       title="Delete Application"
                       icon={Icon.Trash}
@@ -1,25 +1,25 @@
-import { Action, ActionPanel, Color, Icon, List, Toast, getPreferenceValues, showToast } from "@raycast/api";
+import { Action, ActionPanel, Color, Icon, LaunchProps, List, Toast, showToast } from "@raycast/api";
 import { useCachedPromise } from "@raycast/utils";
 import { useMemo, useState } from "react";
-import { Preferences, fetchProjectEnvironments, getInstanceUrl, normalizeBaseUrl, requestJson } from "./api/client";
+import { fetchProjectEnvironments } from "./api/client";
+import { createCoolifyClient } from "./api/coolify";
 import { Project, buildEnvLookup, buildEnvNameToIdsMap, buildEnvToProjectMap, toId } from "./api/filters";
+import { getErrorMessage } from "./api/errors";
+import DatabaseBackupsList from "./components/database-backups";
+import DatabaseConnectionDetail from "./components/database-connection";
+import { DatabaseExposureAction } from "./components/database-exposure";
 import DeleteResourceForm from "./components/delete-resource";
+import EnvironmentVariablesList from "./components/environment-variables";
 import JsonDetail from "./components/json-detail";
 import JsonUpdateForm from "./components/json-update-form";
 import { RedeploySubmenu } from "./components/redeploy-actions";
 import { ResourceDetails } from "./components/resource-details";
+import { InstanceDropdownSection, useInstanceFilterChange } from "./components/instance-dropdown";
+import { useEnvVarsSupport } from "./lib/env-var-support";
+import { useInstance } from "./lib/instance-context";
+import { Database } from "./lib/resources";
 import WithValidToken from "./pages/with-valid-token";
 
-type Database = {
-  id?: number | string;
-  uuid?: string;
-  name?: string;
-  description?: string;
-  environment_id?: number | string;
-  environment_uuid?: string;
-  db_type?: string;
-};
-
 function resolveResourceUrl({
   instanceUrl,
   projectUuid,
@@ -70,19 +70,17 @@ function applyFilter(
   return items;
 }
 
-function DatabasesList() {
-  const { apiUrl, apiToken } = getPreferenceValues<Preferences>();
-  const baseUrl = normalizeBaseUrl(apiUrl ?? "");
-  const instanceUrl = getInstanceUrl(baseUrl);
-  const token = apiToken?.trim() ?? "";
+function DatabasesList({ databaseUuid }: { databaseUuid?: string }) {
+  const { baseUrl, instanceUrl, profile, token } = useInstance();
+  const client = createCoolifyClient({ baseUrl, token });
   const [filterValue, setFilterValue] = useState("all");
-  const [searchText, setSearchText] = useState("");
+  const [searchText, setSearchText] = useState(databaseUuid ?? "");
+  const handleFilterChange = useInstanceFilterChange(setFilterValue);
 
   const { data: projects, isLoading: isLoadingProjects } = useCachedPromise(
-    async () => {
-      return requestJson<Project[]>("/projects", { baseUrl, token });
-    },
-    [],
+    async (currentProfileId: string, currentBaseUrl: string) =>
+      createCoolifyClient({ baseUrl: currentBaseUrl, token }).listProjects(),
+    [profile.id, baseUrl],
     { keepPreviousData: true },
   );
 
@@ -97,14 +95,19 @@ function DatabasesList() {
   const envLookup = useMemo(() => buildEnvLookup(environments ?? []), [environments]);
   const envNameToIds = useMemo(() => buildEnvNameToIdsMap(environments ?? []), [environments]);
 
-  const { data: databases, isLoading: isLoadingDatabases } = useCachedPromise(
-    async () => {
-      return requestJson<Database[]>("/databases", { baseUrl, token });
-    },
-    [],
+  const {
+    data: databases,
+    isLoading: isLoadingDatabases,
+    revalidate: revalidateDatabases,
+  } = useCachedPromise(
+    async (currentProfileId: string, currentBaseUrl: string) =>
+      createCoolifyClient({ baseUrl: currentBaseUrl, token }).listDatabases(),
+    [profile.id, baseUrl],
     { keepPreviousData: true },
   );
 
+  const supportsDatabaseVariables = useEnvVarsSupport(baseUrl, token, "database", databases?.[0]?.uuid);
+
   const filteredDatabases = useMemo(() => {
     const lower = searchText.trim().toLowerCase();
     const withFilter = applyFilter(databases ?? [], filterValue, envToProjectMap, envNameToIds);
@@ -122,10 +125,11 @@ function DatabasesList() {
     <List
       isLoading={isLoadingProjects || isLoadingEnvironments || isLoadingDatabases}
       searchBarPlaceholder="Search Databases..."
+      searchText={searchText}
       onSearchTextChange={setSearchText}
       throttle
       searchBarAccessory={
-        <List.Dropdown tooltip="Filter" onChange={setFilterValue}>
+        <List.Dropdown tooltip="Filter" onChange={handleFilterChange}>
           <List.Dropdown.Item key="all" title="All Databases" value="all" />
           {projects && projects.length > 0 ? (
             <List.Dropdown.Section title="Projects">
@@ -149,6 +153,7 @@ function DatabasesList() {
               ))}
             </List.Dropdown.Section>
           ) : null}
+          <InstanceDropdownSection />
         </List.Dropdown>
       }
     >
@@ -215,6 +220,64 @@ function DatabasesList() {
                 ) : null}
                 <Action.OpenInBrowser title="Open Environment in Coolify" url={environmentUrl} icon={Icon.Globe} />
                 <ActionPanel.Section>
+                  {database.uuid ? (
+                    <Action.Push
+                      title="Show Connection"
+                      icon={Icon.Link}
+                      shortcut={{ modifiers: ["cmd", "shift"], key: "c" }}
+                      target={
+                        <DatabaseConnectionDetail
+                          baseUrl={baseUrl}
+                          token={token}
+                          databaseUuid={String(database.uuid)}
+                          databaseName={title}
+                        />
+                      }
+                    />
+                  ) : null}
+                  {database.uuid ? (
+                    <DatabaseExposureAction
+                      baseUrl={baseUrl}
+                      token={token}
+                      database={database}
+                      onUpdated={revalidateDatabases}
+                    />
+                  ) : null}
+                  {database.uuid ? (
+                    <Action.Push
+                      title="Show Backups"
+                      icon={Icon.Clock}
+                      shortcut={{ modifiers: ["cmd", "shift"], key: "b" }}
+                      target={
+                        <DatabaseBackupsList
+                          baseUrl={baseUrl}
+                          token={token}
+                          databaseUuid={String(database.uuid)}
+                          databaseName={title}
+                          databaseUrl={resourceUrl}
+                        />
+                      }
+                    />
+                  ) : null}
+                  {supportsDatabaseVariables && database.uuid ? (
+                    <Action.Push
+                      title="View Environment Variables"
+                      icon={Icon.Terminal}
+                      target={
+                        <EnvironmentVariablesList
+                          baseUrl={baseUrl}
+                          token={token}
+                          resource={{
+                            type: "database",
+                            uuid: String(database.uuid),
+                            name: title,
+                            projectUuid,
+                            environmentUuid: envUuid,
+                          }}
+                        />
+                      }
+                    />
+                  ) : null}
                   {database.uuid ? (
                     <RedeploySubmenu baseUrl={baseUrl} token={token} uuid={String(database.uuid)} />
                   ) : null}
@@ -226,13 +289,13 @@ function DatabasesList() {
                       title="Start"
                       onAction={async () => {
                         try {
-                          await requestJson(`/databases/${database.uuid}/start`, { baseUrl, token });
+                          await client.startResource("database", String(database.uuid));
                           await showToast({ style: Toast.Style.Success, title: "Start triggered" });
                         } catch (error) {
                           await showToast({
                             style: Toast.Style.Failure,
                             title: "Failed to start",
-                            message: error instanceof Error ? error.message : String(error),
+                            message: getErrorMessage(error),
                           });
                         }
                       }}
@@ -242,13 +305,13 @@ function DatabasesList() {
                       title="Stop"
                       onAction={async () => {
                         try {
-                          await requestJson(`/databases/${database.uuid}/stop`, { baseUrl, token });
+                          await client.stopResource("database", String(database.uuid));
                           await showToast({ style: Toast.Style.Success, title: "Stop triggered" });
                         } catch (error) {
                           await showToast({
                             style: Toast.Style.Failure,
                             title: "Failed to stop",
-                            message: error instanceof Error ? error.message : String(error),
+                            message: getErrorMessage(error),
                           });
                         }
                       }}
@@ -258,13 +321,13 @@ function DatabasesList() {
                       title="Restart"
                       onAction={async () => {
                         try {
-                          await requestJson(`/databases/${database.uuid}/restart`, { baseUrl, token });
+                          await client.restartResource("database", String(database.uuid));
                           await showToast({ style: Toast.Style.Success, title: "Restart triggered" });
                         } catch (error) {
                           await showToast({
                             style: Toast.Style.Failure,
                             title: "Failed to restart",
-                            message: error instanceof Error ? error.message : String(error),
+                            message: getErrorMessage(error),
                           });
                         }
                       }}
@@ -290,6 +353,7 @@ function DatabasesList() {
                           baseUrl={baseUrl}
                           token={token}
                           path={`/databases/${database.uuid}`}
+                          resourceType="database"
                         />
                       }
                     />
@@ -329,10 +393,10 @@ function DatabasesList() {
   );
 }
 
-export default function Command() {
+export default function Command({ launchContext }: LaunchProps<{ launchContext?: { databaseUuid?: string } }>) {
   return (
     <WithValidToken>
-      <DatabasesList />
+      <DatabasesList databaseUuid={launchContext?.databaseUuid} />
     </WithValidToken>
   );
 }
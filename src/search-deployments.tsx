@@ -1,7 +1,8 @@
-import { Action, ActionPanel, Color, Detail, Icon, List, Toast, getPreferenceValues, showToast } from "@raycast/api";
+import { Action, ActionPanel, Color, Detail, Icon, List, Toast, showToast } from "@raycast/api";
 import { useCachedPromise } from "@raycast/utils";
-import { useMemo, useRef, useState } from "react";
-import { Preferences, fetchProjectEnvironments, getInstanceUrl, normalizeBaseUrl, requestJson } from "./api/client";
+import { useMemo, useState } from "react";
+import { fetchProjectEnvironments } from "./api/client";
+import { createCoolifyClient } from "./api/coolify";
 import {
   Project,
   buildEnvLookup,
@@ -10,52 +11,20 @@ import {
   buildEnvToProjectMap,
   toId,
 } from "./api/filters";
+import { Deployment } from "./api/types";
+import { getErrorMessage } from "./api/errors";
+import DeploymentLogsDetail from "./components/deployment-logs";
 import JsonDetail from "./components/json-detail";
 import { LogsSubmenu } from "./components/logs-actions";
 import { RedeploySubmenu } from "./components/redeploy-actions";
+import { InstanceDropdownSection, useInstanceFilterChange } from "./components/instance-dropdown";
+import { useDeploymentFeed } from "./lib/deployment-feed";
+import { ACTIVE_STATUSES, buildCoolifyDeploymentUrl, normalizeStatus, resolveDeployUrl } from "./lib/deployments";
+import { useInstance } from "./lib/instance-context";
+import { Application } from "./lib/resources";
 import WithValidToken from "./pages/with-valid-token";
 import fromNow from "./utils/time";
 
-type Deployment = {
-  id?: number | string;
-  deployment_uuid?: string;
-  status?: string;
-  application_id?: number | string;
-  application_uuid?: string;
-  application_name?: string;
-  name?: string;
-  deployment_url?: string;
-  commit_message?: string;
-  commit?: string;
-  created_at?: string;
-  updated_at?: string;
-  source_app_uuid?: string;
-  environment_id?: number | string;
-  environment_uuid?: string;
-  server_name?: string;
-  logs?: unknown;
-  git_type?: string;
-  git_repository?: string;
-  repo_url?: string;
-  pull_request_url?: string;
-  pull_request_id?: number | string;
-};
-
-type Application = {
-  id?: number | string;
-  uuid?: string;
-  name?: string;
-  git_branch?: string;
-  environment_id?: number | string;
-  environment_uuid?: string;
-};
-
-const ACTIVE_STATUSES = new Set(["running", "queued", "pending", "in_progress", "deploying", "building"]);
-
-function normalizeStatus(status?: string) {
-  return (status ?? "").toLowerCase().replace(/\s+/g, "_").replace(/-+/g, "_");
-}
-
 function statusIcon(status?: string) {
   const value = normalizeStatus(status);
   if (value === "running") return { source: Icon.Dot, tintColor: Color.Green };
@@ -73,45 +42,6 @@ function formatStatus(status?: string) {
   return status.replace(/[_-]/g, " ").replace(/\b\w/g, (match) => match.toUpperCase());
 }
 
-function normalizeList<T>(response: unknown): T[] {
-  if (Array.isArray(response)) return response as T[];
-  if (!response || typeof response !== "object") return [];
-  const record = response as Record<string, unknown>;
-  if (Array.isArray(record.rows)) return record.rows as T[];
-  if (Array.isArray(record.data)) return record.data as T[];
-  if (Array.isArray(record.deployments)) return record.deployments as T[];
-  if (record.data && typeof record.data === "object") {
-    const nested = record.data as Record<string, unknown>;
-    if (Array.isArray(nested.rows)) return nested.rows as T[];
-    if (Array.isArray(nested.data)) return nested.data as T[];
-  }
-  return [];
-}
-
-function normalizeUrl(url?: string) {
-  if (!url) return undefined;
-  if (url.startsWith("http://") || url.startsWith("https://")) return url;
-  return `https://${url}`;
-}
-
-function buildCoolifyDeploymentUrl({
-  instanceUrl,
-  projectUuid,
-  environmentUuid,
-  applicationUuid,
-  deploymentUuid,
-}: {
-  instanceUrl: string;
-  projectUuid?: string;
-  environmentUuid?: string;
-  applicationUuid?: string;
-  deploymentUuid?: string;
-}) {
-  if (!projectUuid || !environmentUuid || !applicationUuid || !deploymentUuid) return undefined;
-  const base = instanceUrl.replace(/\/+$/, "");
-  return `${base}/project/${projectUuid}/environment/${environmentUuid}/application/${applicationUuid}/deployment/${deploymentUuid}`;
-}
-
 function buildCoolifyLogsUrl({
   instanceUrl,
   projectUuid,
@@ -128,15 +58,6 @@ function buildCoolifyLogsUrl({
   return `${base}/project/${projectUuid}/environment/${environmentUuid}/application/${applicationUuid}/logs`;
 }
 
-function resolveDeployUrl(url: string | undefined, instanceUrl: string) {
-  if (!url) return undefined;
-  if (url.startsWith("http://") || url.startsWith("https://")) return url;
-  const base = instanceUrl.replace(/\/+$/, "");
-  if (url.startsWith("/")) return `${base}${url}`;
-  if (url.startsWith("project/")) return `${base}/${url}`;
-  return normalizeUrl(url);
-}
-
 function resolveLogsUrl(value: unknown, instanceUrl: string) {
   if (typeof value !== "string") return undefined;
   const trimmed = value.trim();
@@ -165,18 +86,6 @@ function isHttpUrl(url?: string): url is string {
   }
 }
 
-async function cancelDeployment({
-  baseUrl,
-  token,
-  deploymentUuid,
-}: {
-  baseUrl: string;
-  token: string;
-  deploymentUuid: string;
-}) {
-  await requestJson(`/deployments/${deploymentUuid}/cancel`, { baseUrl, token, method: "POST" });
-}
-
 // redeploy and log actions are shared in components
 
 function resolveRepoUrl(deployment: Deployment) {
@@ -220,20 +129,16 @@ function applyFilter(
 }
 
 function DeploymentsList() {
-  const { apiUrl, apiToken } = getPreferenceValues<Preferences>();
-  const baseUrl = normalizeBaseUrl(apiUrl ?? "");
-  const instanceUrl = getInstanceUrl(baseUrl);
-  const token = apiToken?.trim() ?? "";
+  const { baseUrl, instanceUrl, profile, token } = useInstance();
+  const client = createCoolifyClient({ baseUrl, token });
   const [filterValue, setFilterValue] = useState("all");
   const [searchText, setSearchText] = useState("");
-  const abortable = useRef<AbortController | null>(null);
+  const handleFilterChange = useInstanceFilterChange(setFilterValue);
 
   const { data: projects, isLoading: isLoadingProjects } = useCachedPromise(
-    async () => {
-      const response = await requestJson<unknown>("/projects", { baseUrl, token });
-      return normalizeList<Project>(response);
-    },
-    [],
+    async (currentProfileId: string, currentBaseUrl: string) =>
+      createCoolifyClient({ baseUrl: currentBaseUrl, token }).listProjects(),
+    [profile.id, baseUrl],
     { keepPreviousData: true },
   );
 
@@ -249,11 +154,9 @@ function DeploymentsList() {
   const envNameToIds = useMemo(() => buildEnvNameToIdsMap(environments ?? []), [environments]);
 
   const { data: applications, isLoading: isLoadingApplications } = useCachedPromise(
-    async () => {
-      const response = await requestJson<unknown>("/applications", { baseUrl, token });
-      return normalizeList<Application>(response);
-    },
-    [],
+    async (currentProfileId: string, currentBaseUrl: string) =>
+      createCoolifyClient({ baseUrl: currentBaseUrl, token }).listApplications(),
+    [profile.id, baseUrl],
     { keepPreviousData: true },
   );
 
@@ -302,50 +205,16 @@ function DeploymentsList() {
         .filter(Boolean) as string[];
     }
 
-    // Default: limit to first 20 apps to avoid memory blow-ups
-    return apps
-      .slice(0, 20)
-      .map((app) => app.uuid)
-      .filter(Boolean) as string[];
+    return apps.map((app) => app.uuid).filter(Boolean) as string[];
   }, [applications, envNameToIds, envToProjectMap, filterValue]);
 
   const {
-    data: deployments,
+    deployments,
     isLoading: isLoadingDeployments,
-    revalidate: revalidateDeployments,
-  } = useCachedPromise(
-    async (cacheKey: string) => {
-      void cacheKey;
-      const appUuids = filteredAppUuids;
-      if (!appUuids.length) {
-        const rows = await requestJson<unknown>(`/deployments`, { baseUrl, token, signal: abortable.current?.signal });
-        return normalizeList<Deployment>(rows).slice(0, 200);
-      }
-
-      const all: Deployment[] = [];
-      const batchSize = 1;
-      for (let i = 0; i < appUuids.length; i += batchSize) {
-        const uuid = appUuids[i];
-        const rows = await requestJson<unknown>(`/deployments/applications/${uuid}?take=5`, {
-          baseUrl,
-          token,
-          signal: abortable.current?.signal,
-        });
-        const list = normalizeList<Deployment>(rows);
-        all.push(...list.map((row) => ({ ...row, source_app_uuid: uuid })));
-        if (all.length >= 200) break;
-      }
-      if (all.length > 0) return all;
-      const fallback = await requestJson<unknown>(`/deployments`, {
-        baseUrl,
-        token,
-        signal: abortable.current?.signal,
-      });
-      return normalizeList<Deployment>(fallback).slice(0, 200);
-    },
-    [filteredAppUuids.join("|")],
-    { keepPreviousData: true, abortable },
-  );
+    hasMore,
+    refresh: revalidateDeployments,
+    loadMore,
+  } = useDeploymentFeed(client, profile.id, applications ? filteredAppUuids : undefined);
 
   const filteredDeployments = useMemo(() => {
     const lower = searchText.trim().toLowerCase();
@@ -368,11 +237,12 @@ function DeploymentsList() {
   return (
     <List
       isLoading={isLoadingProjects || isLoadingEnvironments || isLoadingApplications || isLoadingDeployments}
+      pagination={{ hasMore, pageSize: 10, onLoadMore: loadMore }}
       searchBarPlaceholder="Search Deployments..."
       onSearchTextChange={setSearchText}
       throttle
       searchBarAccessory={
-        <List.Dropdown tooltip="Filter" onChange={setFilterValue}>
+        <List.Dropdown tooltip="Filter" onChange={handleFilterChange}>
           <List.Dropdown.Item key="all" title="All Deployments" value="all" />
           <List.Dropdown.Section title="Status">
             <List.Dropdown.Item title="Active (Running/Queued/In Progress)" value="status:active" />
@@ -399,6 +269,7 @@ function DeploymentsList() {
               ))}
             </List.Dropdown.Section>
           ) : null}
+          <InstanceDropdownSection />
         </List.Dropdown>
       }
     >
@@ -472,6 +343,17 @@ function DeploymentsList() {
                     await revalidateDeployments();
                   }}
                 />
+                {hasMore ? (
+                  <Action
+                    title="Load More Deployments"
+                    icon={Icon.Download}
+                    shortcut={{ modifiers: ["cmd"], key: "l" }}
+                    onAction={async () => {
+                      if (isLoadingDeployments) return;
+                      await loadMore();
+                    }}
+                  />
+                ) : null}
                 <Action.Push
                   title="Show Details"
                   icon={Icon.Sidebar}
@@ -491,6 +373,21 @@ function DeploymentsList() {
                     />
                   }
                 />
+                {deployment.deployment_uuid ? (
+                  <Action.Push
+                    title="Show Build Logs"
+                    icon={Icon.Terminal}
+                    shortcut={{ modifiers: ["cmd"], key: "b" }}
+                    target={
+                      <DeploymentLogsDetail
+                        baseUrl={baseUrl}
+                        token={token}
+                        deploymentUuid={deployment.deployment_uuid}
+                        title={deployment.application_name ?? deployment.name ?? appInfo?.name}
+                      />
+                    }
+                  />
+                ) : null}
                 {deployment.deployment_uuid ? (
                   <Action.Push
                     title="View Deployment JSON"
@@ -535,17 +432,13 @@ function DeploymentsList() {
                     style={Action.Style.Destructive}
                     onAction={async () => {
                       try {
-                        await cancelDeployment({
-                          baseUrl,
-                          token,
-                          deploymentUuid: deployment.deployment_uuid as string,
-                        });
+                        await client.cancelDeployment(deployment.deployment_uuid as string);
                         await showToast({ style: Toast.Style.Success, title: "Deployment canceled" });
                       } catch (error) {
                         await showToast({
                           style: Toast.Style.Failure,
                           title: "Failed to cancel deployment",
-                          message: error instanceof Error ? error.message : String(error),
+                          message: getErrorMessage(error),
                         });
                       }
                     }}
@@ -667,6 +560,20 @@ function DeploymentDetails({
       }
       actions={
         <ActionPanel>
+          {deployment.deployment_uuid ? (
+            <Action.Push
+              title="Show Build Logs"
+              icon={Icon.Terminal}
+              target={
+                <DeploymentLogsDetail
+                  baseUrl={baseUrl}
+                  token={token}
+                  deploymentUuid={deployment.deployment_uuid}
+                  title={appName || undefined}
+                />
+              }
+            />
+          ) : null}
           {isHttpUrl(deployUrl) ? (
             <Action.OpenInBrowser title="Open Deploy URL" url={deployUrl!} icon={Icon.Link} />
           ) : null}
@@ -1,25 +1,27 @@
-import { Action, ActionPanel, Icon, List, getPreferenceValues } from "@raycast/api";
+import { Action, ActionPanel, Icon, List } from "@raycast/api";
 import { useCachedPromise } from "@raycast/utils";
 import { useMemo, useState } from "react";
-import { Preferences, fetchProjectEnvironments, getInstanceUrl, normalizeBaseUrl, requestJson } from "./api/client";
+import { fetchProjectEnvironments } from "./api/client";
+import { createCoolifyClient } from "./api/coolify";
 import { Project, buildEnvLookup, toId } from "./api/filters";
 import EnvironmentResourcesList from "./components/environment-resources";
+import EnvironmentVariablesList from "./components/environment-variables";
 import JsonDetail from "./components/json-detail";
+import { InstanceDropdownSection, useInstanceFilterChange } from "./components/instance-dropdown";
+import { useEnvVarsSupport } from "./lib/env-var-support";
+import { useInstance } from "./lib/instance-context";
 import WithValidToken from "./pages/with-valid-token";
 
 function EnvironmentsList() {
-  const { apiUrl, apiToken } = getPreferenceValues<Preferences>();
-  const baseUrl = normalizeBaseUrl(apiUrl ?? "");
-  const instanceUrl = getInstanceUrl(baseUrl);
-  const token = apiToken?.trim() ?? "";
+  const { baseUrl, instanceUrl, profile, token } = useInstance();
   const [filterValue, setFilterValue] = useState("all");
   const [searchText, setSearchText] = useState("");
+  const handleFilterChange = useInstanceFilterChange(setFilterValue);
 
   const { data: projects, isLoading } = useCachedPromise(
-    async () => {
-      return requestJson<Project[]>("/projects", { baseUrl, token });
-    },
-    [],
+    async (currentProfileId: string, currentBaseUrl: string) =>
+      createCoolifyClient({ baseUrl: currentBaseUrl, token }).listProjects(),
+    [profile.id, baseUrl],
     { keepPreviousData: true },
   );
 
@@ -48,6 +50,7 @@ function EnvironmentsList() {
     });
   }, [environments, filterValue, searchText]);
   const envLookup = useMemo(() => buildEnvLookup(environments ?? []), [environments]);
+  const supportsSharedVariables = useEnvVarsSupport(baseUrl, token, "environment", environments?.[0]?.uuid);
 
   return (
     <List
@@ -56,7 +59,7 @@ function EnvironmentsList() {
       onSearchTextChange={setSearchText}
       throttle
       searchBarAccessory={
-        <List.Dropdown tooltip="Project" onChange={setFilterValue}>
+        <List.Dropdown tooltip="Project" onChange={handleFilterChange}>
           <List.Dropdown.Item key="all" title="All Projects" value="all" />
           <List.Dropdown.Section title="Projects">
             {(projects ?? []).map((project) => {
@@ -71,6 +74,7 @@ function EnvironmentsList() {
               );
             })}
           </List.Dropdown.Section>
+          <InstanceDropdownSection />
         </List.Dropdown>
       }
     >
@@ -92,6 +96,7 @@ function EnvironmentsList() {
                     <EnvironmentResourcesList
                       baseUrl={baseUrl}
                       token={token}
+                      profileId={profile.id}
                       instanceUrl={instanceUrl}
                       projectUuid={projectUuid}
                       environmentId={String(env.id ?? "")}
@@ -100,6 +105,25 @@ function EnvironmentsList() {
                     />
                   }
                 />
+                {supportsSharedVariables && env.uuid ? (
+                  <Action.Push
+                    title="View Shared Variables"
+                    icon={Icon.Terminal}
+                    target={
+                      <EnvironmentVariablesList
+                        baseUrl={baseUrl}
+                        token={token}
+                        resource={{
+                          type: "environment",
+                          uuid: env.uuid,
+                          name: `${env.projectName ?? "Project"} / ${env.name ?? "Environment"}`,
+                          projectUuid,
+                          environmentUuid: env.uuid,
+                        }}
+                      />
+                    }
+                  />
+                ) : null}
                 <Action.OpenInBrowser
                   title="Open Environment in Coolify"
                   url={
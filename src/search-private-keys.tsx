@@ -1,45 +1,32 @@
-import {
-  Action,
-  ActionPanel,
-  Alert,
-  Icon,
-  List,
-  Toast,
-  confirmAlert,
-  getPreferenceValues,
-  showToast,
-} from "@raycast/api";
+import { Action, ActionPanel, Alert, Icon, List, Toast, confirmAlert, showToast } from "@raycast/api";
 import { useCachedPromise } from "@raycast/utils";
 import { useState } from "react";
-import { Preferences, getInstanceUrl, normalizeBaseUrl, requestJson } from "./api/client";
+import { createCoolifyClient } from "./api/coolify";
+import { getErrorMessage } from "./api/errors";
+import { InstanceDropdown } from "./components/instance-dropdown";
 import JsonDetail from "./components/json-detail";
+import { useInstance } from "./lib/instance-context";
 import WithValidToken from "./pages/with-valid-token";
 
-type PrivateKey = {
-  id?: number;
-  uuid?: string;
-  name?: string;
-  description?: string;
-  private_key?: string;
-  public_key?: string;
-  fingerprint?: string | null;
-};
-
 function PrivateKeysList() {
-  const { apiUrl, apiToken } = getPreferenceValues<Preferences>();
-  const baseUrl = normalizeBaseUrl(apiUrl ?? "");
-  const instanceUrl = getInstanceUrl(baseUrl);
-  const token = apiToken?.trim() ?? "";
+  const { baseUrl, instanceUrl, profile, token } = useInstance();
+  const client = createCoolifyClient({ baseUrl, token });
   const [isShowingDetail, setIsShowingDetail] = useState(false);
 
   const { data: keys = [], isLoading } = useCachedPromise(
-    async () => requestJson<PrivateKey[]>("/security/keys", { baseUrl, token }),
-    [],
+    async (currentProfileId: string, currentBaseUrl: string) =>
+      createCoolifyClient({ baseUrl: currentBaseUrl, token }).listPrivateKeys(),
+    [profile.id, baseUrl],
     { keepPreviousData: true },
   );
 
   return (
-    <List isLoading={isLoading} searchBarPlaceholder="Search Private Keys..." isShowingDetail={isShowingDetail}>
+    <List
+      isLoading={isLoading}
+      searchBarPlaceholder="Search Private Keys..."
+      isShowingDetail={isShowingDetail}
+      searchBarAccessory={<InstanceDropdown />}
+    >
       <List.Section title="Private Keys" subtitle={`${keys.length} keys`}>
         {keys.map((key) => (
           <List.Item
@@ -85,17 +72,13 @@ function PrivateKeysList() {
                           style: Alert.ActionStyle.Destructive,
                           async onAction() {
                             try {
-                              await requestJson(`/security/keys/${key.uuid}`, {
-                                baseUrl,
-                                token,
-                                method: "DELETE",
-                              });
+                              await client.deletePrivateKey(key.uuid as string);
                               await showToast({ style: Toast.Style.Success, title: "Key deleted" });
                             } catch (error) {
                               await showToast({
                                 style: Toast.Style.Failure,
                                 title: "Failed to delete key",
-                                message: error instanceof Error ? error.message : String(error),
+                                message: getErrorMessage(error),
                               });
                             }
                           },
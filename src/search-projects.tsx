@@ -1,50 +1,43 @@
-import {
-  Action,
-  ActionPanel,
-  Alert,
-  Icon,
-  List,
-  confirmAlert,
-  getPreferenceValues,
-  showToast,
-  Toast,
-} from "@raycast/api";
+import { Action, ActionPanel, Alert, Icon, List, confirmAlert, showToast, Toast } from "@raycast/api";
 import { useCachedPromise } from "@raycast/utils";
 import { useMemo, useState } from "react";
-import { Preferences, getInstanceUrl, normalizeBaseUrl, requestJson } from "./api/client";
-import { Project, ProjectEnvironment, flattenEnvironments, toId } from "./api/filters";
+import { createCoolifyClient } from "./api/coolify";
+import { Environment, Project, ProjectEnvironment, flattenEnvironments, toId } from "./api/filters";
+import { getErrorMessage } from "./api/errors";
 import EnvironmentResourcesList from "./components/environment-resources";
+import EnvironmentVariablesList from "./components/environment-variables";
+import { InstanceDropdown } from "./components/instance-dropdown";
 import JsonDetail from "./components/json-detail";
 import CreateProjectForm from "./components/projects/create-project";
 import UpdateProjectForm from "./components/projects/update-project";
+import { useEnvVarsSupport } from "./lib/env-var-support";
+import { useInstance } from "./lib/instance-context";
 import WithValidToken from "./pages/with-valid-token";
 
-type ProjectEnvironmentResponse = {
-  id?: number | string;
-  uuid?: string;
-  name?: string;
-};
-
 function EnvironmentList({
   baseUrl,
   token,
+  profileId,
   instanceUrl,
   project,
 }: {
   baseUrl: string;
   token: string;
+  profileId: string;
   instanceUrl: string;
   project: Project;
 }) {
   const projectUuid = project.uuid ?? "";
+  const client = createCoolifyClient({ baseUrl, token });
   const { data: environments, isLoading } = useCachedPromise(
     async (uuid: string) => {
-      if (!uuid) return [] as ProjectEnvironmentResponse[];
-      return requestJson<ProjectEnvironmentResponse[]>(`/projects/${uuid}/environments`, { baseUrl, token });
+      if (!uuid) return [] as Environment[];
+      return client.listProjectEnvironments(uuid);
     },
     [projectUuid],
     { keepPreviousData: true },
   );
+  const supportsSharedVariables = useEnvVarsSupport(baseUrl, token, "environment", environments?.[0]?.uuid);
 
   return (
     <List isLoading={isLoading} searchBarPlaceholder="Search environments...">
@@ -83,6 +76,7 @@ function EnvironmentList({
                   <EnvironmentResourcesList
                     baseUrl={baseUrl}
                     token={token}
+                    profileId={profileId}
                     instanceUrl={instanceUrl}
                     projectUuid={project.uuid}
                     environmentId={String(environment.id ?? "")}
@@ -91,6 +85,25 @@ function EnvironmentList({
                   />
                 }
               />
+              {supportsSharedVariables && environment.uuid ? (
+                <Action.Push
+                  title="View Shared Variables"
+                  icon={Icon.Terminal}
+                  target={
+                    <EnvironmentVariablesList
+                      baseUrl={baseUrl}
+                      token={token}
+                      resource={{
+                        type: "environment",
+                        uuid: environment.uuid,
+                        name: environment.name ?? "Environment",
+                        projectUuid: project.uuid,
+                        environmentUuid: environment.uuid,
+                      }}
+                    />
+                  }
+                />
+              ) : null}
               <ActionPanel.Section>
                 {project.uuid && environment.uuid ? (
                   <Action.CopyToClipboard
@@ -118,10 +131,8 @@ function EnvironmentList({
 }
 
 function ProjectsList() {
-  const { apiUrl, apiToken } = getPreferenceValues<Preferences>();
-  const baseUrl = normalizeBaseUrl(apiUrl ?? "");
-  const instanceUrl = getInstanceUrl(baseUrl);
-  const token = apiToken?.trim() ?? "";
+  const { baseUrl, instanceUrl, profile, token } = useInstance();
+  const client = createCoolifyClient({ baseUrl, token });
   const [searchText, setSearchText] = useState("");
 
   const {
@@ -129,12 +140,13 @@ function ProjectsList() {
     isLoading,
     revalidate,
   } = useCachedPromise(
-    async () => {
-      return requestJson<Project[]>("/projects", { baseUrl, token });
-    },
-    [],
+    async (currentProfileId: string, currentBaseUrl: string) =>
+      createCoolifyClient({ baseUrl: currentBaseUrl, token }).listProjects(),
+    [profile.id, baseUrl],
     { keepPreviousData: true },
   );
+  const supportsTeamVariables = useEnvVarsSupport(baseUrl, token, "team", "current");
+  const supportsProjectVariables = useEnvVarsSupport(baseUrl, token, "project", projects?.[0]?.uuid);
 
   const filteredProjects = useMemo(() => {
     const lower = searchText.trim().toLowerCase();
@@ -150,7 +162,13 @@ function ProjectsList() {
   }, [projects, searchText]);
 
   return (
-    <List isLoading={isLoading} searchBarPlaceholder="Search Projects..." onSearchTextChange={setSearchText} throttle>
+    <List
+      isLoading={isLoading}
+      searchBarPlaceholder="Search Projects..."
+      onSearchTextChange={setSearchText}
+      throttle
+      searchBarAccessory={<InstanceDropdown />}
+    >
       {(filteredProjects ?? []).map((project) => {
         const environments = flattenEnvironments([project]) as ProjectEnvironment[];
         const environmentCount = environments.length;
@@ -170,7 +188,44 @@ function ProjectsList() {
                     title="Show Environments"
                     icon={Icon.List}
                     target={
-                      <EnvironmentList baseUrl={baseUrl} token={token} instanceUrl={instanceUrl} project={project} />
+                      <EnvironmentList
+                        baseUrl={baseUrl}
+                        token={token}
+                        profileId={profile.id}
+                        instanceUrl={instanceUrl}
+                        project={project}
+                      />
+                    }
+                  />
+                ) : null}
+                {supportsProjectVariables && project.uuid ? (
+                  <Action.Push
+                    title="View Shared Variables"
+                    icon={Icon.Terminal}
+                    target={
+                      <EnvironmentVariablesList
+                        baseUrl={baseUrl}
+                        token={token}
+                        resource={{
+                          type: "project",
+                          uuid: project.uuid,
+                          name: project.name ?? "Project",
+                          projectUuid: project.uuid,
+                        }}
+                      />
+                    }
+                  />
+                ) : null}
+                {supportsTeamVariables ? (
+                  <Action.Push
+                    title="View Team Shared Variables"
+                    icon={Icon.TwoPeople}
+                    target={
+                      <EnvironmentVariablesList
+                        baseUrl={baseUrl}
+                        token={token}
+                        resource={{ type: "team", uuid: "current", name: "Team" }}
+                      />
                     }
                   />
                 ) : null}
@@ -218,14 +273,14 @@ function ProjectsList() {
                           async onAction() {
                             const toast = await showToast(Toast.Style.Animated, "Deleting project");
                             try {
-                              await requestJson(`/projects/${project.uuid}`, { baseUrl, token, method: "DELETE" });
+                              await client.deleteProject(project.uuid as string);
                               await revalidate();
                               toast.style = Toast.Style.Success;
                               toast.title = "Deleted";
                             } catch (error) {
                               toast.style = Toast.Style.Failure;
                               toast.title = "Failed";
-                              toast.message = error instanceof Error ? error.message : String(error);
+                              toast.message = getErrorMessage(error);
                             }
                           },
                         },
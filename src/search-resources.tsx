@@ -1,7 +1,8 @@
-import { Action, ActionPanel, Color, Icon, List, Toast, getPreferenceValues, showToast } from "@raycast/api";
+import { Action, ActionPanel, Color, Icon, List, Toast, showToast } from "@raycast/api";
 import { useCachedPromise } from "@raycast/utils";
 import { useMemo, useState } from "react";
-import { Preferences, fetchProjectEnvironments, getInstanceUrl, normalizeBaseUrl, requestJson } from "./api/client";
+import { fetchProjectEnvironments } from "./api/client";
+import { createCoolifyClient } from "./api/coolify";
 import {
   Project,
   buildEnvLookup,
@@ -10,12 +11,16 @@ import {
   buildEnvToProjectMap,
   toId,
 } from "./api/filters";
+import { getErrorMessage } from "./api/errors";
 import EnvironmentVariablesList from "./components/environment-variables";
 import { buildConsoleLogsUrl, LogsSubmenu } from "./components/logs-actions";
 import { ResourceDetails } from "./components/resource-details";
 import { RedeploySubmenu } from "./components/redeploy-actions";
 import DeleteResourceForm from "./components/delete-resource";
-import { Application, Database, ResourceItem, ResourceType, Service, buildResources } from "./lib/resources";
+import { InstanceDropdownSection, useInstanceFilterChange } from "./components/instance-dropdown";
+import { useEnvVarsSupport } from "./lib/env-var-support";
+import { ResourceItem, ResourceType, buildResources } from "./lib/resources";
+import { useInstance } from "./lib/instance-context";
 import WithValidToken from "./pages/with-valid-token";
 
 function applyFilter(
@@ -46,16 +51,16 @@ function applyFilter(
 }
 
 function ResourcesList() {
-  const { apiUrl, apiToken } = getPreferenceValues<Preferences>();
-  const baseUrl = normalizeBaseUrl(apiUrl ?? "");
-  const instanceUrl = getInstanceUrl(baseUrl);
-  const token = apiToken?.trim() ?? "";
+  const { baseUrl, instanceUrl, profile, token } = useInstance();
+  const client = createCoolifyClient({ baseUrl, token });
   const [filterValue, setFilterValue] = useState("all");
   const [searchText, setSearchText] = useState("");
+  const handleFilterChange = useInstanceFilterChange(setFilterValue);
 
   const { data: projects, isLoading: isLoadingProjects } = useCachedPromise(
-    async () => requestJson<Project[]>("/projects", { baseUrl, token }),
-    [],
+    async (currentProfileId: string, currentBaseUrl: string) =>
+      createCoolifyClient({ baseUrl: currentBaseUrl, token }).listProjects(),
+    [profile.id, baseUrl],
     { keepPreviousData: true },
   );
 
@@ -71,21 +76,25 @@ function ResourcesList() {
   const envNameToIds = useMemo(() => buildEnvNameToIdsMap(environments ?? []), [environments]);
 
   const { data: applications, isLoading: isLoadingApplications } = useCachedPromise(
-    async () => requestJson<Application[]>("/applications", { baseUrl, token }),
-    [],
+    async (currentProfileId: string, currentBaseUrl: string) =>
+      createCoolifyClient({ baseUrl: currentBaseUrl, token }).listApplications(),
+    [profile.id, baseUrl],
     { keepPreviousData: true },
   );
   const { data: services, isLoading: isLoadingServices } = useCachedPromise(
-    async () => requestJson<Service[]>("/services", { baseUrl, token }),
-    [],
+    async (currentProfileId: string, currentBaseUrl: string) =>
+      createCoolifyClient({ baseUrl: currentBaseUrl, token }).listServices(),
+    [profile.id, baseUrl],
     { keepPreviousData: true },
   );
   const { data: databases, isLoading: isLoadingDatabases } = useCachedPromise(
-    async () => requestJson<Database[]>("/databases", { baseUrl, token }),
-    [],
+    async (currentProfileId: string, currentBaseUrl: string) =>
+      createCoolifyClient({ baseUrl: currentBaseUrl, token }).listDatabases(),
+    [profile.id, baseUrl],
     { keepPreviousData: true },
   );
 
+  const supportsDatabaseVariables = useEnvVarsSupport(baseUrl, token, "database", databases?.[0]?.uuid);
   const resources = useMemo(
     () => buildResources(applications ?? [], services ?? [], databases ?? []),
     [applications, databases, services],
@@ -143,7 +152,7 @@ function ResourcesList() {
       onSearchTextChange={setSearchText}
       throttle
       searchBarAccessory={
-        <List.Dropdown tooltip="Filter" onChange={setFilterValue}>
+        <List.Dropdown tooltip="Filter" onChange={handleFilterChange}>
           <List.Dropdown.Item key="all" title="All Resources" value="all" />
           {projects && projects.length > 0 ? (
             <List.Dropdown.Section title="Projects">
@@ -172,6 +181,7 @@ function ResourcesList() {
             <List.Dropdown.Item title="Services" value="type:service" />
             <List.Dropdown.Item title="Databases" value="type:database" />
           </List.Dropdown.Section>
+          <InstanceDropdownSection />
         </List.Dropdown>
       }
     >
@@ -200,7 +210,6 @@ function ResourcesList() {
                     applicationUuid: item.uuid,
                   })
                 : undefined;
-            const canViewEnvVars = item.type === "application" || item.type === "service";
 
             const accessories = [
               envName
@@ -255,7 +264,7 @@ function ResourcesList() {
                     ) : null}
                     <Action.OpenInBrowser title="Open Environment in Coolify" url={environmentUrl} icon={Icon.Globe} />
                     <ActionPanel.Section>
-                      {canViewEnvVars && item.uuid ? (
+                      {item.uuid && (item.type !== "database" || supportsDatabaseVariables) ? (
                         <Action.Push
                           title="View Environment Variables"
                           icon={Icon.Terminal}
@@ -264,9 +273,11 @@ function ResourcesList() {
                               baseUrl={baseUrl}
                               token={token}
                               resource={{
-                                type: item.type === "service" ? "service" : "application",
+                                type: item.type,
                                 uuid: String(item.uuid),
                                 name: item.name,
+                                projectUuid: projectUuid,
+                                environmentUuid: envUuid,
                               }}
                             />
                           }
@@ -289,16 +300,13 @@ function ResourcesList() {
                           title="Start"
                           onAction={async () => {
                             try {
-                              await requestJson(`/${resourceTypeEndpoint(item.type)}s/${item.uuid}/start`, {
-                                baseUrl,
-                                token,
-                              });
+                              await client.startResource(item.type, String(item.uuid));
                               await showToast({ style: Toast.Style.Success, title: "Start triggered" });
                             } catch (error) {
                               await showToast({
                                 style: Toast.Style.Failure,
                                 title: "Failed to start",
-                                message: error instanceof Error ? error.message : String(error),
+                                message: getErrorMessage(error),
                               });
                             }
                           }}
@@ -308,16 +316,13 @@ function ResourcesList() {
                           title="Stop"
                           onAction={async () => {
                             try {
-                              await requestJson(`/${resourceTypeEndpoint(item.type)}s/${item.uuid}/stop`, {
-                                baseUrl,
-                                token,
-                              });
+                              await client.stopResource(item.type, String(item.uuid));
                               await showToast({ style: Toast.Style.Success, title: "Stop triggered" });
                             } catch (error) {
                               await showToast({
                                 style: Toast.Style.Failure,
                                 title: "Failed to stop",
-                                message: error instanceof Error ? error.message : String(error),
+                                message: getErrorMessage(error),
                               });
                             }
                           }}
@@ -327,16 +332,13 @@ function ResourcesList() {
                           title="Restart"
                           onAction={async () => {
                             try {
-                              await requestJson(`/${resourceTypeEndpoint(item.type)}s/${item.uuid}/restart`, {
-                                baseUrl,
-                                token,
-                              });
+                              await client.restartResource(item.type, String(item.uuid));
                               await showToast({ style: Toast.Style.Success, title: "Restart triggered" });
                             } catch (error) {
                               await showToast({
                                 style: Toast.Style.Failure,
                                 title: "Failed to restart",
-                                message: error instanceof Error ? error.message : String(error),
+                                message: getErrorMessage(error),
                               });
                             }
                           }}
@@ -2,39 +2,37 @@ import {
   Action,
   ActionPanel,
   Color,
+  Detail,
   Form,
   Icon,
   Keyboard,
   List,
   showToast,
   Toast,
-  getPreferenceValues,
   useNavigation,
 } from "@raycast/api";
-import { FormValidation, useForm } from "@raycast/utils";
+import { FormValidation, useForm, usePromise } from "@raycast/utils";
 import { useCachedPromise } from "@raycast/utils";
 import { useMemo, useState } from "react";
-import { Preferences, getInstanceUrl, normalizeBaseUrl, requestJson } from "./api/client";
+import { createCoolifyClient } from "./api/coolify";
+import { Server } from "./api/types";
+import { getErrorMessage } from "./api/errors";
+import { InstanceDropdown } from "./components/instance-dropdown";
 import JsonDetail from "./components/json-detail";
+import ServerValidationDetail from "./components/server-validation";
+import { useInstance } from "./lib/instance-context";
+import { parseResourceStatus } from "./lib/resources";
+import {
+  countResources,
+  countStateChanges,
+  isBuildServer,
+  isServerReachable,
+  isServerUsable,
+  recordReachability,
+} from "./lib/server-health";
+import fromNow from "./utils/time";
 import WithValidToken from "./pages/with-valid-token";
 
-type Server = {
-  uuid?: string;
-  description?: string | null;
-  name?: string;
-  ip?: string;
-  is_reachable?: boolean;
-  is_usable?: boolean;
-  user?: string;
-  port?: string;
-};
-
-type PrivateKey = {
-  id?: number;
-  uuid?: string;
-  name?: string;
-};
-
 type CreateServerValues = {
   name?: string;
   description?: string;
@@ -46,22 +44,11 @@ type CreateServerValues = {
   instant_validate?: boolean;
 };
 
-type ServerResource = {
-  uuid?: string;
-  name?: string;
-  type?: string;
-  status?: string;
-  created_at?: string;
-};
-
-type ServerDomainEntry = {
-  ip?: string;
-  domains?: string[];
-};
-
 function serverColor(server: Server) {
-  if (server.is_reachable && server.is_usable) return Color.Green;
-  if (server.is_reachable || server.is_usable) return Color.Yellow;
+  const reachable = isServerReachable(server);
+  const usable = isServerUsable(server);
+  if (reachable && usable) return Color.Green;
+  if (reachable || usable) return Color.Yellow;
   return Color.Red;
 }
 
@@ -76,11 +63,132 @@ function ServerDetailsView({ baseUrl, token, server }: { baseUrl: string; token:
   );
 }
 
+function ServerDashboardView({ baseUrl, token, server }: { baseUrl: string; token: string; server: Server }) {
+  const client = createCoolifyClient({ baseUrl, token });
+  const { isLoading, data, revalidate } = usePromise(
+    async (uuid: string) => {
+      const [details, resources, domains] = await Promise.all([
+        client.getServer(uuid),
+        client.listServerResources(uuid),
+        client.listServerDomains(uuid),
+      ]);
+      return {
+        details,
+        counts: countResources(resources),
+        domainCount: domains.reduce((total, entry) => total + (entry.domains?.length ?? 0), 0),
+        history: await recordReachability(uuid, details, { onlyIfChanged: true }),
+      };
+    },
+    [String(server.uuid)],
+    {
+      onError: async (error) => {
+        await showToast({
+          style: Toast.Style.Failure,
+          title: "Failed to load server",
+          message: getErrorMessage(error),
+        });
+      },
+    },
+  );
+
+  const details = data?.details ?? server;
+  const history = data?.history ?? [];
+  const now = new Date();
+  const flag = (value: boolean) => (value ? "✅" : "❌");
+
+  const markdown = [
+    `# ${details.name ?? "Server"}`,
+    details.description ?? "",
+    "## Reachability History",
+    history.length === 0
+      ? "_No checks recorded yet._"
+      : [
+          "| Checked | Reachable | Usable |",
+          "| --- | --- | --- |",
+          ...history.map(
+            (check) =>
+              `| ${new Date(check.checkedAt).toLocaleString()} (${fromNow(check.checkedAt, now)}) | ${flag(check.isReachable)} | ${flag(check.isUsable)} |`,
+          ),
+        ].join("\n"),
+  ].join("\n\n");
+
+  return (
+    <Detail
+      isLoading={isLoading}
+      navigationTitle={`${server.name ?? "Server"} / Dashboard`}
+      markdown={markdown}
+      metadata={
+        <Detail.Metadata>
+          <Detail.Metadata.TagList title="Status">
+            <Detail.Metadata.TagList.Item
+              text={isServerReachable(details) ? "Reachable" : "Unreachable"}
+              color={isServerReachable(details) ? Color.Green : Color.Red}
+            />
+            <Detail.Metadata.TagList.Item
+              text={isServerUsable(details) ? "Usable" : "Not Usable"}
+              color={isServerUsable(details) ? Color.Green : Color.Red}
+            />
+          </Detail.Metadata.TagList>
+          {details.ip ? <Detail.Metadata.Label title="IP" text={details.ip} /> : null}
+          <Detail.Metadata.Label title="Build Server" text={isBuildServer(details) ? "Yes" : "No"} />
+          <Detail.Metadata.Label title="Proxy" text={details.proxy?.type ?? "None"} />
+          {details.proxy?.status ? <Detail.Metadata.Label title="Proxy Status" text={details.proxy.status} /> : null}
+          <Detail.Metadata.Separator />
+          {data ? (
+            <>
+              <Detail.Metadata.Label title="Resources" text={String(data.counts.total)} />
+              <Detail.Metadata.Label title="Running" text={String(data.counts.running)} />
+              <Detail.Metadata.Label title="Exited" text={String(data.counts.exited)} />
+              <Detail.Metadata.Label
+                title="Unhealthy"
+                text={{
+                  value: String(data.counts.unhealthy),
+                  color: data.counts.unhealthy > 0 ? Color.Red : undefined,
+                }}
+              />
+              <Detail.Metadata.Label title="Domains" text={String(data.domainCount)} />
+            </>
+          ) : null}
+          <Detail.Metadata.Separator />
+          <Detail.Metadata.Label
+            title="State Changes"
+            text={{
+              value: `${countStateChanges(history)} in last ${history.length} checks`,
+              color: countStateChanges(history) > 1 ? Color.Orange : undefined,
+            }}
+          />
+        </Detail.Metadata>
+      }
+      actions={
+        <ActionPanel>
+          <Action
+            icon={Icon.ArrowClockwise}
+            title="Refresh"
+            shortcut={{ modifiers: ["cmd"], key: "r" }}
+            onAction={revalidate}
+          />
+          <Action.Push
+            icon={Icon.CircleFilled}
+            title="View Resources"
+            target={<ServerResourcesView baseUrl={baseUrl} token={token} server={server} />}
+          />
+          <Action.Push
+            icon={Icon.Globe}
+            title="View Domains"
+            target={<ServerDomainsView baseUrl={baseUrl} token={token} server={server} />}
+          />
+        </ActionPanel>
+      }
+    />
+  );
+}
+
 function ServerResourcesView({ baseUrl, token, server }: { baseUrl: string; token: string; server: Server }) {
+  const client = createCoolifyClient({ baseUrl, token });
   const { isLoading, data: resources = [] } = useCachedPromise(
     async (uuid?: string) => {
       if (!uuid) return [];
-      return requestJson<ServerResource[]>(`/servers/${uuid}/resources`, { baseUrl, token });
+      return client.listServerResources(uuid);
     },
     [server.uuid],
     { keepPreviousData: true },
@@ -93,9 +201,7 @@ function ServerResourcesView({ baseUrl, token, server }: { baseUrl: string; toke
       <List.Section title={`${server.name ?? "Server"} / Resources`} subtitle={`${filteredResources.length} resources`}>
         {filteredResources.map((resource) => {
           const status = resource.status ?? "";
-          const statusParts = status.split(":");
-          const statusLabel = statusParts[0] ? statusParts[0].replace(/_/g, " ") : "unknown";
-          const healthy = statusParts[1] === "healthy";
+          const { label: statusLabel, isHealthy: healthy } = parseResourceStatus(status);
 
           const accessories: List.Item.Accessory[] = [
             {
@@ -139,10 +245,11 @@ function ServerResourcesView({ baseUrl, token, server }: { baseUrl: string; toke
 }
 
 function ServerDomainsView({ baseUrl, token, server }: { baseUrl: string; token: string; server: Server }) {
+  const client = createCoolifyClient({ baseUrl, token });
   const { isLoading, data: domains = [] } = useCachedPromise(
     async (uuid?: string) => {
       if (!uuid) return [];
-      return requestJson<ServerDomainEntry[]>(`/servers/${uuid}/domains`, { baseUrl, token });
+      return client.listServerDomains(uuid);
     },
     [server.uuid],
     { keepPreviousData: true },
@@ -178,13 +285,25 @@ function ServerDomainsView({ baseUrl, token, server }: { baseUrl: string; token:
   );
 }
 
-function CreateServerForm({ baseUrl, token, onAdded }: { baseUrl: string; token: string; onAdded: () => void }) {
+function CreateServerForm({
+  baseUrl,
+  token,
+  profileId,
+  onAdded,
+}: {
+  baseUrl: string;
+  token: string;
+  profileId: string;
+  onAdded: () => void;
+}) {
   const { pop } = useNavigation();
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const client = createCoolifyClient({ baseUrl, token });
 
   const { data: keys = [], isLoading: isLoadingKeys } = useCachedPromise(
-    async () => requestJson<PrivateKey[]>("/security/keys", { baseUrl, token }),
-    [],
+    async (currentProfileId: string, currentBaseUrl: string) =>
+      createCoolifyClient({ baseUrl: currentBaseUrl, token }).listPrivateKeys(),
+    [profileId, baseUrl],
     { keepPreviousData: true },
   );
 
@@ -192,7 +311,7 @@ function CreateServerForm({ baseUrl, token, onAdded }: { baseUrl: string; token:
     onSubmit: async () => {
       setIsSubmitting(true);
       try {
-        await requestJson("/servers", { baseUrl, token, method: "POST", body: values });
+        await client.createServer(values);
         await showToast({ style: Toast.Style.Success, title: "Server added" });
         onAdded();
         pop();
@@ -200,7 +319,7 @@ function CreateServerForm({ baseUrl, token, onAdded }: { baseUrl: string; token:
         await showToast({
           style: Toast.Style.Failure,
           title: "Failed to add server",
-          message: error instanceof Error ? error.message : String(error),
+          message: getErrorMessage(error),
         });
       } finally {
         setIsSubmitting(false);
@@ -255,19 +374,19 @@ function CreateServerForm({ baseUrl, token, onAdded }: { baseUrl: string; token:
 }
 
 function ServersList() {
-  const { apiUrl, apiToken } = getPreferenceValues<Preferences>();
-  const baseUrl = normalizeBaseUrl(apiUrl ?? "");
-  const instanceUrl = getInstanceUrl(baseUrl);
-  const token = apiToken?.trim() ?? "";
+  const { baseUrl, instanceUrl, profile, token } = useInstance();
   const [searchText, setSearchText] = useState("");
 
   const {
     data: servers = [],
     isLoading,
     revalidate,
-  } = useCachedPromise(async () => requestJson<Server[]>("/servers", { baseUrl, token }), [], {
-    keepPreviousData: true,
-  });
+  } = useCachedPromise(
+    async (currentProfileId: string, currentBaseUrl: string) =>
+      createCoolifyClient({ baseUrl: currentBaseUrl, token }).listServers(),
+    [profile.id, baseUrl],
+    { keepPreviousData: true },
+  );
 
   const filteredServers = servers.filter((server) => {
     const lower = searchText.trim().toLowerCase();
@@ -277,7 +396,13 @@ function ServersList() {
   });
 
   return (
-    <List isLoading={isLoading} searchBarPlaceholder="Search Servers..." onSearchTextChange={setSearchText} throttle>
+    <List
+      isLoading={isLoading}
+      searchBarPlaceholder="Search Servers..."
+      onSearchTextChange={setSearchText}
+      throttle
+      searchBarAccessory={<InstanceDropdown />}
+    >
       {!isLoading && filteredServers.length === 0 ? (
         <List.EmptyView
           title="No servers found"
@@ -287,7 +412,9 @@ function ServersList() {
               <Action.Push
                 icon={Icon.Plus}
                 title="Add Server"
-                target={<CreateServerForm baseUrl={baseUrl} token={token} onAdded={revalidate} />}
+                target={
+                  <CreateServerForm baseUrl={baseUrl} token={token} profileId={profile.id} onAdded={revalidate} />
+                }
               />
             </ActionPanel>
           }
@@ -303,6 +430,13 @@ function ServersList() {
               accessories={[server.ip ? { text: server.ip } : null].filter(Boolean) as List.Item.Accessory[]}
               actions={
                 <ActionPanel>
+                  {server.uuid ? (
+                    <Action.Push
+                      icon={Icon.Gauge}
+                      title="View Dashboard"
+                      target={<ServerDashboardView baseUrl={baseUrl} token={token} server={server} />}
+                    />
+                  ) : null}
                   <Action.Push
                     icon={Icon.Eye}
                     title="View Details"
@@ -321,25 +455,16 @@ function ServersList() {
                   <Action.Push
                     icon={Icon.Plus}
                     title="Add Server"
-                    target={<CreateServerForm baseUrl={baseUrl} token={token} onAdded={revalidate} />}
+                    target={
+                      <CreateServerForm baseUrl={baseUrl} token={token} profileId={profile.id} onAdded={revalidate} />
+                    }
                     shortcut={Keyboard.Shortcut.Common.New}
                   />
                   {server.uuid ? (
-                    <Action
+                    <Action.Push
                       icon={Icon.CheckCircle}
                       title="Validate Server"
-                      onAction={async () => {
-                        try {
-                          await requestJson(`/servers/${server.uuid}/validate`, { baseUrl, token });
-                          await showToast({ style: Toast.Style.Success, title: "Validation started" });
-                        } catch (error) {
-                          await showToast({
-                            style: Toast.Style.Failure,
-                            title: "Failed to validate",
-                            message: error instanceof Error ? error.message : String(error),
-                          });
-                        }
-                      }}
+                      target={<ServerValidationDetail baseUrl={baseUrl} token={token} server={server} />}
                     />
                   ) : null}
                   {server.uuid ? (
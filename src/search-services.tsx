@@ -1,26 +1,23 @@
-import { Action, ActionPanel, Color, Icon, List, Toast, getPreferenceValues, showToast } from "@raycast/api";
+import { Action, ActionPanel, Color, Icon, LaunchProps, List, Toast, showToast } from "@raycast/api";
 import { useCachedPromise } from "@raycast/utils";
 import { useMemo, useState } from "react";
-import { Preferences, fetchProjectEnvironments, getInstanceUrl, normalizeBaseUrl, requestJson } from "./api/client";
+import { fetchProjectEnvironments } from "./api/client";
+import { createCoolifyClient } from "./api/coolify";
 import { Project, buildEnvLookup, buildEnvNameToIdsMap, buildEnvToProjectMap, toId } from "./api/filters";
+import { getErrorMessage } from "./api/errors";
+import ComposeEditor from "./components/compose-editor";
 import DeleteResourceForm from "./components/delete-resource";
 import EnvironmentVariablesList from "./components/environment-variables";
 import JsonDetail from "./components/json-detail";
 import JsonUpdateForm from "./components/json-update-form";
 import { RedeploySubmenu } from "./components/redeploy-actions";
 import { ResourceDetails } from "./components/resource-details";
+import ServiceContainersList from "./components/service-containers";
+import { InstanceDropdownSection, useInstanceFilterChange } from "./components/instance-dropdown";
+import { useInstance } from "./lib/instance-context";
+import { Service } from "./lib/resources";
 import WithValidToken from "./pages/with-valid-token";
 
-type Service = {
-  id?: number | string;
-  uuid?: string;
-  name?: string;
-  description?: string;
-  environment_id?: number | string;
-  environment_uuid?: string;
-  service_type?: string;
-};
-
 function resolveResourceUrl({
   instanceUrl,
   projectUuid,
@@ -71,19 +68,17 @@ function applyFilter(
   return items;
 }
 
-function ServicesList() {
-  const { apiUrl, apiToken } = getPreferenceValues<Preferences>();
-  const baseUrl = normalizeBaseUrl(apiUrl ?? "");
-  const instanceUrl = getInstanceUrl(baseUrl);
-  const token = apiToken?.trim() ?? "";
+function ServicesList({ serviceUuid }: { serviceUuid?: string }) {
+  const { baseUrl, instanceUrl, profile, token } = useInstance();
+  const client = createCoolifyClient({ baseUrl, token });
   const [filterValue, setFilterValue] = useState("all");
-  const [searchText, setSearchText] = useState("");
+  const [searchText, setSearchText] = useState(serviceUuid ?? "");
+  const handleFilterChange = useInstanceFilterChange(setFilterValue);
 
   const { data: projects, isLoading: isLoadingProjects } = useCachedPromise(
-    async () => {
-      return requestJson<Project[]>("/projects", { baseUrl, token });
-    },
-    [],
+    async (currentProfileId: string, currentBaseUrl: string) =>
+      createCoolifyClient({ baseUrl: currentBaseUrl, token }).listProjects(),
+    [profile.id, baseUrl],
     { keepPreviousData: true },
   );
 
@@ -99,10 +94,9 @@ function ServicesList() {
   const envNameToIds = useMemo(() => buildEnvNameToIdsMap(environments ?? []), [environments]);
 
   const { data: services, isLoading: isLoadingServices } = useCachedPromise(
-    async () => {
-      return requestJson<Service[]>("/services", { baseUrl, token });
-    },
-    [],
+    async (currentProfileId: string, currentBaseUrl: string) =>
+      createCoolifyClient({ baseUrl: currentBaseUrl, token }).listServices(),
+    [profile.id, baseUrl],
     { keepPreviousData: true },
   );
 
@@ -123,10 +117,11 @@ function ServicesList() {
     <List
       isLoading={isLoadingProjects || isLoadingEnvironments || isLoadingServices}
       searchBarPlaceholder="Search Services..."
+      searchText={searchText}
       onSearchTextChange={setSearchText}
       throttle
       searchBarAccessory={
-        <List.Dropdown tooltip="Filter" onChange={setFilterValue}>
+        <List.Dropdown tooltip="Filter" onChange={handleFilterChange}>
           <List.Dropdown.Item key="all" title="All Services" value="all" />
           {projects && projects.length > 0 ? (
             <List.Dropdown.Section title="Projects">
@@ -150,6 +145,7 @@ function ServicesList() {
               ))}
             </List.Dropdown.Section>
           ) : null}
+          <InstanceDropdownSection />
         </List.Dropdown>
       }
     >
@@ -216,6 +212,34 @@ function ServicesList() {
                 ) : null}
                 <Action.OpenInBrowser title="Open Environment in Coolify" url={environmentUrl} icon={Icon.Globe} />
                 <ActionPanel.Section>
+                  {service.uuid ? (
+                    <Action.Push
+                      title="Show Containers"
+                      icon={Icon.Box}
+                      target={
+                        <ServiceContainersList
+                          baseUrl={baseUrl}
+                          token={token}
+                          serviceUuid={String(service.uuid)}
+                          serviceName={title}
+                          serviceUrl={resourceUrl}
+                        />
+                      }
+                    />
+                  ) : null}
+                  {service.uuid ? (
+                    <Action.Push
+                      title="Edit Docker Compose"
+                      icon={Icon.Document}
+                      target={
+                        <ComposeEditor
+                          baseUrl={baseUrl}
+                          token={token}
+                          resource={{ type: "service", uuid: String(service.uuid), name: title }}
+                        />
+                      }
+                    />
+                  ) : null}
                   {service.uuid ? (
                     <Action.Push
                       title="View Environment Variables"
@@ -224,7 +248,13 @@ function ServicesList() {
                         <EnvironmentVariablesList
                           baseUrl={baseUrl}
                           token={token}
-                          resource={{ type: "service", uuid: String(service.uuid), name: title }}
+                          resource={{
+                            type: "service",
+                            uuid: String(service.uuid),
+                            name: title,
+                            projectUuid,
+                            environmentUuid: envUuid,
+                          }}
                         />
                       }
                     />
@@ -240,13 +270,13 @@ function ServicesList() {
                       title="Start"
                       onAction={async () => {
                         try {
-                          await requestJson(`/services/${service.uuid}/start`, { baseUrl, token });
+                          await client.startResource("service", String(service.uuid));
                           await showToast({ style: Toast.Style.Success, title: "Start triggered" });
                         } catch (error) {
                           await showToast({
                             style: Toast.Style.Failure,
                             title: "Failed to start",
-                            message: error instanceof Error ? error.message : String(error),
+                            message: getErrorMessage(error),
                           });
                         }
                       }}
@@ -256,13 +286,13 @@ function ServicesList() {
                       title="Stop"
                       onAction={async () => {
                         try {
-                          await requestJson(`/services/${service.uuid}/stop`, { baseUrl, token });
+                          await client.stopResource("service", String(service.uuid));
                           await showToast({ style: Toast.Style.Success, title: "Stop triggered" });
                         } catch (error) {
                           await showToast({
                             style: Toast.Style.Failure,
                             title: "Failed to stop",
-                            message: error instanceof Error ? error.message : String(error),
+                            message: getErrorMessage(error),
                           });
                         }
                       }}
@@ -272,13 +302,13 @@ function ServicesList() {
                       title="Restart"
                       onAction={async () => {
                         try {
-                          await requestJson(`/services/${service.uuid}/restart`, { baseUrl, token });
+                          await client.restartResource("service", String(service.uuid));
                           await showToast({ style: Toast.Style.Success, title: "Restart triggered" });
                         } catch (error) {
                           await showToast({
                             style: Toast.Style.Failure,
                             title: "Failed to restart",
-                            message: error instanceof Error ? error.message : String(error),
+                            message: getErrorMessage(error),
                           });
                         }
                       }}
@@ -304,6 +334,7 @@ function ServicesList() {
                           baseUrl={baseUrl}
                           token={token}
                           path={`/services/${service.uuid}`}
+                          resourceType="service"
                         />
                       }
                     />
@@ -343,10 +374,10 @@ function ServicesList() {
   );
 }
 
-export default function Command() {
+export default function Command({ launchContext }: LaunchProps<{ launchContext?: { serviceUuid?: string } }>) {
   return (
     <WithValidToken>
-      <ServicesList />
+      <ServicesList serviceUuid={launchContext?.serviceUuid} />
     </WithValidToken>
   );
 }
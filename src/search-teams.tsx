@@ -1,29 +1,20 @@
-import { Action, ActionPanel, Icon, List, getPreferenceValues } from "@raycast/api";
+import { Action, ActionPanel, Icon, List } from "@raycast/api";
 import { useCachedPromise } from "@raycast/utils";
 import { useState } from "react";
-import { Preferences, getInstanceUrl, normalizeBaseUrl, requestJson } from "./api/client";
+import { createCoolifyClient } from "./api/coolify";
+import { Team } from "./api/types";
+import { InstanceDropdown } from "./components/instance-dropdown";
 import JsonDetail from "./components/json-detail";
+import { useInstance } from "./lib/instance-context";
 import WithValidToken from "./pages/with-valid-token";
 
-type Team = {
-  id?: number;
-  name?: string;
-  description?: string | null;
-};
-
-type TeamMember = {
-  id?: number;
-  name?: string;
-  email?: string;
-};
-
 function TeamMembersList({ baseUrl, token, team }: { baseUrl: string; token: string; team: Team }) {
   const { data: members = [], isLoading } = useCachedPromise(
-    async () => {
-      if (!team.id) return [];
-      return requestJson<TeamMember[]>(`/teams/${team.id}/members`, { baseUrl, token });
+    async (currentBaseUrl: string, teamId?: number | string) => {
+      if (!teamId) return [];
+      return createCoolifyClient({ baseUrl: currentBaseUrl, token }).listTeamMembers(teamId);
     },
-    [],
+    [baseUrl, team.id],
     { keepPreviousData: true },
   );
 
@@ -56,25 +47,25 @@ function TeamMembersList({ baseUrl, token, team }: { baseUrl: string; token: str
 }
 
 function TeamsList() {
-  const { apiUrl, apiToken } = getPreferenceValues<Preferences>();
-  const baseUrl = normalizeBaseUrl(apiUrl ?? "");
-  const instanceUrl = getInstanceUrl(baseUrl);
-  const token = apiToken?.trim() ?? "";
+  const { baseUrl, instanceUrl, profile, token } = useInstance();
   const [searchText, setSearchText] = useState("");
 
   const { data: teams = [], isLoading } = useCachedPromise(
-    async () => requestJson<Team[]>("/teams", { baseUrl, token }),
-    [],
+    async (currentProfileId: string, currentBaseUrl: string) =>
+      createCoolifyClient({ baseUrl: currentBaseUrl, token }).listTeams(),
+    [profile.id, baseUrl],
     { keepPreviousData: true },
   );
   const { data: currentTeam } = useCachedPromise(
-    async () => requestJson<Team>("/teams/current", { baseUrl, token }),
-    [],
+    async (currentProfileId: string, currentBaseUrl: string) =>
+      createCoolifyClient({ baseUrl: currentBaseUrl, token }).getCurrentTeam(),
+    [profile.id, baseUrl],
     { keepPreviousData: true },
   );
   const { data: currentMembers = [] } = useCachedPromise(
-    async () => requestJson<TeamMember[]>("/teams/current/members", { baseUrl, token }),
-    [],
+    async (currentProfileId: string, currentBaseUrl: string) =>
+      createCoolifyClient({ baseUrl: currentBaseUrl, token }).listCurrentTeamMembers(),
+    [profile.id, baseUrl],
     { keepPreviousData: true },
   );
 
@@ -86,7 +77,13 @@ function TeamsList() {
   });
 
   return (
-    <List isLoading={isLoading} searchBarPlaceholder="Search Teams..." onSearchTextChange={setSearchText} throttle>
+    <List
+      isLoading={isLoading}
+      searchBarPlaceholder="Search Teams..."
+      onSearchTextChange={setSearchText}
+      throttle
+      searchBarAccessory={<InstanceDropdown />}
+    >
       {currentTeam ? (
         <List.Section title="Current Team">
           <List.Item
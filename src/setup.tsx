@@ -1,33 +1,26 @@
-import {
-  Action,
-  ActionPanel,
-  Detail,
-  Icon,
-  Toast,
-  getPreferenceValues,
-  openExtensionPreferences,
-  showToast,
-} from "@raycast/api";
+import { Action, ActionPanel, Detail, Icon, Toast, openExtensionPreferences, showToast } from "@raycast/api";
+import { usePromise } from "@raycast/utils";
 import { DEFAULT_BASE_URL, getInstanceUrl, normalizeBaseUrl } from "./api/client";
+import { createCoolifyClient } from "./api/coolify";
+import { getErrorMessage } from "./api/errors";
+import InstancesList from "./components/instances/instances-list";
+import { resolveActiveConnection } from "./lib/profiles";
 
-type Preferences = {
-  apiUrl?: string;
-  apiToken?: string;
-};
-
-function getSetupMarkdown(baseUrl: string, hasToken: boolean): string {
+function getSetupMarkdown(baseUrl: string, hasToken: boolean, instanceName: string): string {
   const statusLine = hasToken
     ? "✅ **API Token** is set."
     : "❌ **API Token** is missing. Add one in Extension Preferences.";
 
-  return `![Coolify](coolify-logo.png?raycast-width=96&raycast-height=96)\n\n# Coolify Setup\n\n${statusLine}\n\n## How to create a token\n1. Open Coolify.\n2. Go to **Keys & Tokens → API tokens**.\n3. Create a token with the permissions you need.\n4. Paste it into **Raycast → Extensions → Coolify → API Token**.\n\n**Permissions guidance**\n- Start with **read-only** for viewing resources.\n- Add **read:sensitive** if you need access to sensitive fields.\n- Add **view:sensitive** if you need to unredact secrets.\n- Use **\\*** only if you need full administrative access.\n\nNote: Tokens are scoped to the current team and shown only once on creation.\n\n## Base URL\n- **Coolify Cloud:** ${DEFAULT_BASE_URL}\n- **Self-hosted:** https://<your-instance>/api/v1\n\n**Current Base URL**\n\n\`\`\`\n${baseUrl}\n\`\`\`\n\nTip: for self-hosted, set the URL without extra paths (this command will append /api/v1).\n`;
+  return `![Coolify](coolify-logo.png?raycast-width=96&raycast-height=96)\n\n# Coolify Setup\n\n**Active Instance:** ${instanceName}\n\n${statusLine}\n\n## How to create a token\n1. Open Coolify.\n2. Go to **Keys & Tokens → API tokens**.\n3. Create a token with the permissions you need.\n4. Paste it into **Raycast → Extensions → Coolify → API Token**.\n\n**Permissions guidance**\n- Start with **read-only** for viewing resources.\n- Add **read:sensitive** if you need access to sensitive fields.\n- Add **view:sensitive** if you need to unredact secrets.\n- Use **\\*** only if you need full administrative access.\n\nNote: Tokens are scoped to the current team and shown only once on creation.\n\n## Base URL\n- **Coolify Cloud:** ${DEFAULT_BASE_URL}\n- **Self-hosted:** https://<your-instance>/api/v1\n\n**Current Base URL**\n\n\`\`\`\n${baseUrl}\n\`\`\`\n\nTip: for self-hosted, set the URL without extra paths (this command will append /api/v1).\n`;
 }
 
 export default function Command() {
-  const { apiUrl, apiToken } = getPreferenceValues<Preferences>();
-  const baseUrl = normalizeBaseUrl(apiUrl ?? "");
-  const instanceUrl = getInstanceUrl(baseUrl);
-  const hasToken = Boolean(apiToken && apiToken.trim().length > 0);
+  const { data: connection, isLoading, revalidate } = usePromise(resolveActiveConnection);
+  const baseUrl = connection?.baseUrl ?? normalizeBaseUrl("");
+  const instanceUrl = connection?.instanceUrl ?? getInstanceUrl(baseUrl);
+  const apiToken = connection?.token ?? "";
+  const instanceName = connection?.profile.name ?? "Default";
+  const hasToken = apiToken.length > 0;
   const authHeaderTemplate = "Authorization: Bearer <YOUR_API_TOKEN>";
   const docsUrl = "https://coolify.io/docs/api-reference/authorization";
 
@@ -44,17 +37,7 @@ export default function Command() {
     await showToast({ style: Toast.Style.Animated, title: "Testing connection..." });
 
     try {
-      const response = await fetch(`${baseUrl}/teams/current/members`, {
-        headers: {
-          Authorization: `Bearer ${apiToken}`,
-        },
-      });
-
-      if (!response.ok) {
-        throw new Error(`HTTP ${response.status}`);
-      }
-
-      const members = (await response.json()) as unknown[];
+      const members = await createCoolifyClient({ baseUrl, token: apiToken }).listCurrentTeamMembers();
       await showToast({
         style: Toast.Style.Success,
         title: "Connected",
@@ -64,16 +47,18 @@ export default function Command() {
       await showToast({
         style: Toast.Style.Failure,
         title: "Connection failed",
-        message: error instanceof Error ? error.message : "Unknown error",
+        message: getErrorMessage(error),
       });
     }
   }
 
   return (
     <Detail
-      markdown={getSetupMarkdown(baseUrl, hasToken)}
+      isLoading={isLoading}
+      markdown={getSetupMarkdown(baseUrl, hasToken, instanceName)}
       metadata={
         <Detail.Metadata>
+          <Detail.Metadata.Label title="Instance" text={instanceName} />
           <Detail.Metadata.Label title="API Token" text={hasToken ? "Set" : "Missing"} />
           <Detail.Metadata.Label title="Base URL" text={baseUrl} />
           <Detail.Metadata.Label title="Instance URL" text={instanceUrl} />
@@ -85,6 +70,7 @@ export default function Command() {
           <Action.OpenInBrowser title="Open Coolify Instance" url={instanceUrl} />
           <Action.OpenInBrowser title="Open API Token Docs" url={docsUrl} />
           <Action title="Open Extension Preferences" icon={Icon.Gear} onAction={openExtensionPreferences} />
+          <Action.Push title="Switch Instance" icon={Icon.Switch} target={<InstancesList onSwitched={revalidate} />} />
           <Action.CopyToClipboard title="Copy Base URL" content={baseUrl} />
           <Action.CopyToClipboard title="Copy Authorization Header Template" content={authHeaderTemplate} />
         </ActionPanel>
@@ -0,0 +1,5 @@
+import InstancesList from "./components/instances/instances-list";
+
+export default function Command() {
+  return <InstancesList />;
+}
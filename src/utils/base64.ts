@@ -0,0 +1,3 @@
+export function encodeBase64(text: string) {
+  return Buffer.from(text, "utf8").toString("base64");
+}
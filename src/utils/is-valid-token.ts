@@ -1,14 +1,10 @@
-import { getPreferenceValues } from "@raycast/api";
-import { Preferences, normalizeBaseUrl, requestJson } from "../api/client";
+import { requestJson } from "../api/client";
 
-export default async function isValidToken(): Promise<boolean> {
-  const { apiUrl, apiToken } = getPreferenceValues<Preferences>();
-  const token = apiToken?.trim() ?? "";
+export default async function isValidToken({ baseUrl, token }: { baseUrl: string; token: string }): Promise<boolean> {
   if (!token) {
     throw new Error("Missing API token");
   }
 
-  const baseUrl = normalizeBaseUrl(apiUrl ?? "");
   await requestJson("/projects", { baseUrl, token });
   return true;
 }
@@ -13,3 +13,12 @@ export default function fromNow(timestamp: number, reference: Date) {
   const years = Math.floor(months / 12);
   return `${years}y ago`;
 }
+
+export function formatDuration(ms: number) {
+  const seconds = Math.max(0, Math.round(ms / 1000));
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m ${seconds % 60}s`;
+  const hours = Math.floor(minutes / 60);
+  return `${hours}h ${minutes % 60}m`;
+}
@@ -0,0 +1,116 @@
+import { LaunchType, launchCommand, showHUD } from "@raycast/api";
+import { fetchProjectEnvironments } from "./api/client";
+import { CoolifyClient, createCoolifyClient } from "./api/coolify";
+import { CoolifyApiError } from "./api/errors";
+import { buildEnvLookup } from "./api/filters";
+import { Deployment } from "./api/types";
+import { buildCoolifyDeploymentUrl, isActiveStatus, normalizeStatus, resolveDeployUrl } from "./lib/deployments";
+import { InstanceConnection, loadProfiles, toConnection } from "./lib/profiles";
+import {
+  FinishedDeployment,
+  TrackedDeployment,
+  loadTrackedDeployments,
+  recordFinishedDeployments,
+  saveTrackedDeployments,
+} from "./lib/tracked-deployments";
+import { formatDuration } from "./utils/time";
+
+const STALE_AFTER_MS = 24 * 60 * 60 * 1000;
+
+async function resolveDeploymentUrl(
+  client: CoolifyClient,
+  connection: InstanceConnection,
+  deployment: Deployment,
+  applicationUuid?: string,
+) {
+  const fallback = resolveDeployUrl(deployment.deployment_url, connection.instanceUrl);
+  if (!applicationUuid || !deployment.deployment_uuid) return fallback;
+  try {
+    const application = await client.getApplication(applicationUuid);
+    const environments = await fetchProjectEnvironments(await client.listProjects(), connection);
+    const environment = buildEnvLookup(environments).get(String(application.environment_id ?? ""));
+    return (
+      buildCoolifyDeploymentUrl({
+        instanceUrl: connection.instanceUrl,
+        projectUuid: environment?.projectUuid,
+        environmentUuid: environment?.uuid,
+        applicationUuid,
+        deploymentUuid: deployment.deployment_uuid,
+      }) ?? fallback
+    );
+  } catch {
+    return fallback;
+  }
+}
+
+function toFinished(deployment: Deployment, tracked: TrackedDeployment, url?: string): FinishedDeployment {
+  const status = normalizeStatus(deployment.status);
+  const startedAt = deployment.created_at ? new Date(deployment.created_at).getTime() : tracked.triggeredAt;
+  const finishedAt = deployment.updated_at ? new Date(deployment.updated_at).getTime() : Date.now();
+  return {
+    deploymentUuid: tracked.deploymentUuid,
+    name: deployment.application_name ?? deployment.name ?? "Application",
+    status,
+    succeeded: status === "finished" || status === "success",
+    durationMs: Number.isFinite(finishedAt - startedAt) ? finishedAt - startedAt : undefined,
+    url,
+    finishedAt: Date.now(),
+  };
+}
+
+function describe(finished: FinishedDeployment) {
+  const duration = finished.durationMs !== undefined ? ` in ${formatDuration(finished.durationMs)}` : "";
+  if (finished.succeeded) return `Deployed ${finished.name}${duration}`;
+  return `Deployment of ${finished.name} ${finished.status.replace(/_/g, " ")}${duration}`;
+}
+
+export default async function Command() {
+  const tracked = await loadTrackedDeployments();
+  if (tracked.length === 0) return;
+
+  const connections = (await loadProfiles()).map(toConnection);
+  const pending: TrackedDeployment[] = [];
+  const finished: FinishedDeployment[] = [];
+
+  for (const item of tracked) {
+    const connection = connections.find((candidate) => candidate.profile.id === item.profileId);
+    if (!connection || Date.now() - item.triggeredAt > STALE_AFTER_MS) continue;
+
+    const client = createCoolifyClient(connection);
+    try {
+      const deployment = await client.getDeployment(item.deploymentUuid);
+      if (isActiveStatus(deployment.status)) {
+        pending.push(item);
+        continue;
+      }
+      const url = await resolveDeploymentUrl(client, connection, deployment, item.resourceUuid);
+      finished.push(toFinished(deployment, item, url));
+    } catch (error) {
+      // Deleted deployments are dropped; anything else (offline, timeouts) is retried on the next run.
+      if (!(error instanceof CoolifyApiError && error.status === 404)) pending.push(item);
+    }
+  }
+
+  // Redeploys triggered while this ran were stored after our read; keep them.
+  const processed = new Set(tracked.map((item) => item.deploymentUuid));
+  const added = (await loadTrackedDeployments()).filter((item) => !processed.has(item.deploymentUuid));
+  await saveTrackedDeployments([...pending, ...added]);
+  await recordFinishedDeployments(finished);
+
+  if (finished.length === 0) return;
+
+  // HUDs cannot hold links, so the deep link lives in the menu bar's finished list; refresh it now.
+  try {
+    await launchCommand({ name: "menu-bar-deployments", type: LaunchType.Background });
+  } catch {
+    // The menu bar command is disabled.
+  }
+
+  const hint = finished.some((item) => item.url) ? " · Link in the Coolify menu bar" : "";
+  if (finished.length === 1) {
+    await showHUD(`${describe(finished[0])}${hint}`);
+  } else {
+    const failed = finished.filter((item) => !item.succeeded).length;
+    await showHUD(`${finished.length} deployments finished${failed > 0 ? `, ${failed} failed` : ""}${hint}`);
+  }
+}